@@ -0,0 +1,186 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface MoreSpecific {
+  prefix: string;
+  visibility: number;
+  coveredBy: string;
+  coveringVisibility: number;
+}
+
+interface MaskCount {
+  family: "v4" | "v6";
+  length: number;
+  count: number;
+}
+
+interface AddressSpace {
+  v4Addresses: number;
+  v6Slash48s: number;
+  maskHistogram: MaskCount[];
+  moreSpecifics: MoreSpecific[];
+  aggregates: { v4: string[]; v6: string[] };
+}
+
+const LIST_LIMIT = 20;
+
+function MaskBars({ counts }: { counts: MaskCount[] }) {
+  const max = Math.max(1, ...counts.map((c) => c.count));
+  return (
+    <div class="space-y-1">
+      {counts.map((c) => (
+        <div key={c.length} class="flex items-center gap-2 text-xs">
+          <span class="w-8 text-right text-[#999]">/{c.length}</span>
+          <div class="flex-1 h-2 bg-[#f3f3f3] rounded">
+            <div
+              class={`h-2 rounded ${
+                c.family === "v4" ? "bg-blue-500" : "bg-indigo-500"
+              }`}
+              style={{ width: `${(c.count / max) * 100}%` }}
+            />
+          </div>
+          <span class="w-12 text-[#666]">{c.count.toLocaleString()}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AddressSpacePanel({ asn }: { asn: number }) {
+  const data = useSignal<AddressSpace | null>(null);
+  const error = useSignal<string | null>(null);
+  const showAggregates = useSignal(false);
+
+  useEffect(() => {
+    data.value = null;
+    error.value = null;
+    fetch(`/api/address-space?asn=${asn}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          data.value = resp;
+        } else {
+          error.value = resp.error || "Address space unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch address space";
+      });
+  }, [asn]);
+
+  const d = data.value;
+  // A dip on a more-specific is harmless while its covering aggregate is
+  // better seen: traffic still follows the aggregate.
+  const dips = d
+    ? [...d.moreSpecifics].sort((a, b) => a.visibility - b.visibility)
+    : [];
+  const aggregateCount = d
+    ? d.aggregates.v4.length + d.aggregates.v6.length
+    : 0;
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+        Address Space
+      </h3>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {d && (
+        <>
+          <div class="flex flex-wrap gap-6 mb-6 text-center">
+            <div>
+              <div class="text-sm font-medium text-blue-600">
+                {d.v4Addresses.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">IPv4 addresses</div>
+            </div>
+            <div>
+              <div class="text-sm font-medium text-indigo-600">
+                {d.v6Slash48s.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">IPv6 /48s</div>
+            </div>
+            <div>
+              <div class="text-sm font-medium text-[#111]">
+                {d.moreSpecifics.length.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">Covered more-specifics</div>
+            </div>
+            <div>
+              <div class="text-sm font-medium text-[#111]">
+                {aggregateCount.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">Minimal aggregates</div>
+            </div>
+          </div>
+
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <div class="text-xs text-[#999] mb-2">IPv4 mask lengths</div>
+              <MaskBars
+                counts={d.maskHistogram.filter((c) => c.family === "v4")}
+              />
+            </div>
+            <div>
+              <div class="text-xs text-[#999] mb-2">IPv6 mask lengths</div>
+              <MaskBars
+                counts={d.maskHistogram.filter((c) => c.family === "v6")}
+              />
+            </div>
+          </div>
+
+          {dips.length > 0 && (
+            <div class="mb-4">
+              <div class="text-xs text-[#999] mb-2">
+                Least visible more-specifics and their covering aggregate
+              </div>
+              <div class="space-y-1 text-xs">
+                {dips.slice(0, LIST_LIMIT).map((m) => (
+                  <div
+                    key={m.prefix}
+                    class="flex items-center justify-between"
+                  >
+                    <span>
+                      <code class="text-[#111]">{m.prefix}</code>{" "}
+                      <span class="text-[#999]">
+                        {m.visibility.toLocaleString()}
+                      </span>
+                    </span>
+                    <span class="text-[#666]">
+                      in <code>{m.coveredBy}</code>{" "}
+                      <span
+                        class={m.coveringVisibility > m.visibility
+                          ? "text-green-700"
+                          : "text-red-600"}
+                      >
+                        {m.coveringVisibility.toLocaleString()}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={() => (showAggregates.value = !showAggregates.value)}
+            class="text-xs text-blue-600 hover:underline"
+          >
+            {showAggregates.value ? "Hide" : "Show"} minimal aggregate set
+          </button>
+          {showAggregates.value && (
+            <div class="mt-2 max-h-64 overflow-y-auto text-xs text-[#111] space-y-0.5">
+              {[...d.aggregates.v4, ...d.aggregates.v6].map((p) => (
+                <div key={p}>
+                  <code>{p}</code>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
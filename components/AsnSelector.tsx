@@ -0,0 +1,61 @@
+import { useSignal } from "@preact/signals";
+
+interface AsnSelectorProps {
+  networks: { asn: number; name: string }[];
+  asn: number;
+  onSelect: (asn: number) => void;
+}
+
+export function AsnSelector({ networks, asn, onSelect }: AsnSelectorProps) {
+  const custom = useSignal("");
+  const invalid = useSignal(false);
+
+  const submit = (e: Event) => {
+    e.preventDefault();
+    const value = Number(custom.value.trim().replace(/^AS/i, ""));
+    if (!Number.isInteger(value) || value <= 0 || value > 4294967295) {
+      invalid.value = true;
+      return;
+    }
+    invalid.value = false;
+    onSelect(value);
+  };
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 mb-6 text-xs">
+      <span class="text-[#999] uppercase tracking-wider">Origin AS</span>
+      {networks.map((n) => (
+        <button
+          key={n.asn}
+          type="button"
+          onClick={() => onSelect(n.asn)}
+          class={`px-2 py-1 rounded ${
+            n.asn === asn
+              ? "bg-[#111] text-white"
+              : "bg-white shadow text-[#666] hover:text-[#111]"
+          }`}
+        >
+          {n.name}
+        </button>
+      ))}
+      <form onSubmit={submit} class="flex items-center gap-1">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="AS number"
+          value={custom.value}
+          onInput={(e) => (custom.value = e.currentTarget.value)}
+          class={`w-28 px-2 py-1 rounded border bg-white ${
+            invalid.value ? "border-red-400" : "border-[#eee]"
+          }`}
+        />
+        <button
+          type="submit"
+          class="px-2 py-1 rounded bg-white shadow text-[#666] hover:text-[#111]"
+        >
+          Show
+        </button>
+      </form>
+    </div>
+  );
+}
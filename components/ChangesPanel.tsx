@@ -0,0 +1,107 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface PrefixChange {
+  timestamp: number;
+  asn: number;
+  prefix: string;
+  kind: "announced" | "withdrawn" | "visibility";
+  previousHits: number | null;
+  hits: number | null;
+}
+
+const KIND_STYLES: Record<PrefixChange["kind"], string> = {
+  announced: "bg-green-100 text-green-700",
+  withdrawn: "bg-red-100 text-red-700",
+  visibility: "bg-amber-100 text-amber-700",
+};
+
+export function ChangesPanel() {
+  const changes = useSignal<PrefixChange[] | null>(null);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/changes")
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          changes.value = resp.changes;
+        } else {
+          error.value = resp.error || "Changes unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch routing changes";
+      });
+  }, []);
+
+  return (
+    <div class="bg-white rounded-lg shadow overflow-hidden mb-6">
+      <div class="px-4 py-3 bg-[#fafafa] border-b border-[#eee]">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          Recent Routing Changes — last 24h
+        </h3>
+      </div>
+      {error.value && (
+        <p class="px-4 py-3 text-xs text-red-600">{error.value}</p>
+      )}
+      {changes.value && changes.value.length === 0 && (
+        <p class="px-4 py-3 text-xs text-[#999]">
+          No announcements, withdrawals or visibility swings between recent BGP
+          table refreshes.
+        </p>
+      )}
+      {changes.value && changes.value.length > 0 && (
+        <div class="overflow-x-auto max-h-96">
+          <table class="w-full text-sm">
+            <thead>
+              <tr class="border-b border-[#eee] bg-[#fafafa]">
+                <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                  Time
+                </th>
+                <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                  Prefix
+                </th>
+                <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                  Change
+                </th>
+                <th class="text-right px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                  Visibility
+                </th>
+              </tr>
+            </thead>
+            <tbody class="divide-y divide-[#eee]">
+              {changes.value.map((c) => (
+                <tr
+                  key={`${c.timestamp}-${c.asn}-${c.prefix}`}
+                  class="hover:bg-[#fafafa]"
+                >
+                  <td class="px-4 py-3 text-xs text-[#999]">
+                    {new Date(c.timestamp).toLocaleString()}
+                  </td>
+                  <td class="px-4 py-3">
+                    <code class="text-[#111]">{c.prefix}</code>{" "}
+                    <span class="text-xs text-[#bbb]">AS{c.asn}</span>
+                  </td>
+                  <td class="px-4 py-3">
+                    <span
+                      class={`text-xs px-2 py-0.5 rounded ${
+                        KIND_STYLES[c.kind]
+                      }`}
+                    >
+                      {c.kind}
+                    </span>
+                  </td>
+                  <td class="px-4 py-3 text-right text-xs text-[#666]">
+                    {c.previousHits?.toLocaleString() ?? "—"} →{" "}
+                    {c.hits?.toLocaleString() ?? "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+const DATASETS = [
+  { id: "presence", label: "IXP × network presence" },
+  { id: "prefixes", label: "All prefixes with visibility" },
+  { id: "buckets", label: "Visibility buckets" },
+];
+
+const FORMATS = ["csv", "ndjson", "json"];
+
+// Download links for /api/export, for pasting into reports and spreadsheets.
+export function ExportPanel({ asn }: { asn: number }) {
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+        Export
+      </h3>
+      <div class="space-y-2">
+        {DATASETS.map((d) => (
+          <div key={d.id} class="flex items-center justify-between text-xs">
+            <span class="text-[#111]">{d.label}</span>
+            <span class="flex gap-2">
+              {FORMATS.map((format) => (
+                <a
+                  key={format}
+                  href={`/api/export/${d.id}?asn=${asn}&format=${format}`}
+                  download
+                  class="px-2 py-1 rounded bg-[#fafafa] text-[#666] hover:text-[#111] uppercase"
+                >
+                  {format}
+                </a>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
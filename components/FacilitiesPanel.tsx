@@ -0,0 +1,143 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface FacilityGroup {
+  country: string;
+  city: string;
+  facilities: { id: number; name: string }[];
+  commonIxpInCountry: boolean | null;
+}
+
+type DataStatus = "fresh" | "stale" | "unknown";
+
+interface FacilityOverlap {
+  asn: number;
+  name: string;
+  dataStatus: DataStatus;
+  facilities: number;
+  shared: number;
+  groups: FacilityGroup[];
+}
+
+export function FacilitiesPanel() {
+  const networks = useSignal<FacilityOverlap[] | null>(null);
+  const cfCount = useSignal(0);
+  const cfStatus = useSignal<DataStatus>("fresh");
+  const selected = useSignal<number | null>(null);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/facilities")
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          networks.value = resp.networks;
+          cfCount.value = resp.cloudflareFacilities;
+          cfStatus.value = resp.cloudflareDataStatus;
+          selected.value = resp.networks[0]?.asn ?? null;
+        } else {
+          error.value = resp.error || "Facilities unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch facilities";
+      });
+  }, []);
+
+  const current = networks.value?.find((n) => n.asn === selected.value);
+  // PeeringDB failed with nothing cached for either network: no shared
+  // facility is not a finding then.
+  const unknown = (n: FacilityOverlap) =>
+    cfStatus.value === "unknown" || n.dataStatus === "unknown";
+  const stale = (n: FacilityOverlap) =>
+    cfStatus.value === "stale" || n.dataStatus === "stale";
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          Shared Facilities with Cloudflare
+        </h3>
+        {networks.value && (
+          <span class="text-xs text-[#999]">
+            {cfStatus.value === "unknown"
+              ? "Cloudflare's facilities unavailable"
+              : `Cloudflare in ${cfCount.value} facilities`}
+          </span>
+        )}
+      </div>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {networks.value && (
+        <div class="flex flex-wrap gap-2 mb-4">
+          {networks.value.map((n) => (
+            <button
+              key={n.asn}
+              type="button"
+              onClick={() => (selected.value = n.asn)}
+              class={`text-xs px-2 py-1 rounded ${
+                n.asn === selected.value
+                  ? "bg-[#111] text-white"
+                  : "bg-[#fafafa] text-[#666] hover:text-[#111]"
+              }`}
+            >
+              {n.name} · {unknown(n) ? "?" : `${n.shared}/${n.facilities}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current && unknown(current) && (
+        <p class="text-xs text-amber-700">
+          PeeringDB facility data for{" "}
+          {current.dataStatus === "unknown" ? current.name : "Cloudflare"}{" "}
+          is unavailable, so shared facilities cannot be determined.
+        </p>
+      )}
+
+      {current && !unknown(current) && stale(current) && (
+        <p class="text-xs text-amber-600 mb-2">
+          Based on cached PeeringDB data, the last refresh failed.
+        </p>
+      )}
+
+      {current && !unknown(current) && current.groups.length === 0 && (
+        <p class="text-xs text-[#999]">
+          {current.name}{" "}
+          shares no PeeringDB facility with Cloudflare, so a private
+          interconnect is unlikely.
+        </p>
+      )}
+
+      {current && !unknown(current) && current.groups.length > 0 && (
+        <div class="space-y-3">
+          {current.groups.map((g) => (
+            <div key={`${g.country}-${g.city}`} class="text-xs">
+              <div class="flex items-center gap-2 mb-1">
+                <span class="font-medium text-[#111]">
+                  {g.city}, {g.country}
+                </span>
+                {g.commonIxpInCountry === false && (
+                  <span class="px-2 py-0.5 rounded bg-amber-100 text-amber-700">
+                    No common IXP — PNI plausible
+                  </span>
+                )}
+                {g.commonIxpInCountry === true && (
+                  <span class="px-2 py-0.5 rounded bg-green-100 text-green-700">
+                    Also meet at an IXP
+                  </span>
+                )}
+              </div>
+              <div class="text-[#666] pl-2">
+                {g.facilities.map((f) =>
+                  f.name
+                ).join(" · ")}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+import { TrendChart } from "./TrendChart.tsx";
+
+interface HistorySeries {
+  timestamp: number[];
+  total: number[];
+  v4: number[];
+  v6: number[];
+  avgVisibility: number[];
+  minVisibility: number[];
+  maxVisibility: number[];
+  cfIxpsGlobal: number[];
+  buckets: { label: string; counts: number[] }[];
+  ixps: {
+    id: number;
+    name: string;
+    country: string;
+    networks: { asn: number; name: string; present: (boolean | null)[] }[];
+  }[];
+}
+
+const RANGES = ["24h", "7d", "30d", "1y"];
+
+const BUCKET_COLORS = ["#f87171", "#fb923c", "#facc15", "#4ade80", "#16a34a"];
+
+export function HistoryPanel() {
+  const range = useSignal("7d");
+  const series = useSignal<HistorySeries | null>(null);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    error.value = null;
+    fetch(`/api/history?range=${range.value}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          series.value = resp.series;
+        } else {
+          error.value = resp.error || "History unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch history";
+      });
+  }, [range.value]);
+
+  const s = series.value;
+
+  // Only IXP/network pairs whose presence flipped within the range are
+  // interesting enough to plot.
+  const flips = s
+    ? s.ixps.flatMap((ixp) =>
+      ixp.networks
+        .filter((net) => {
+          const known = net.present.filter((p) => p !== null);
+          return known.some((p) => p !== known[0]);
+        })
+        .map((net) => ({ ixp, net }))
+    )
+    : [];
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          Trends
+        </h3>
+        <div class="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              type="button"
+              onClick={() => (range.value = r)}
+              class={`text-xs px-2 py-0.5 rounded ${
+                range.value === r
+                  ? "bg-[#111] text-white"
+                  : "text-[#999] hover:text-[#666]"
+              }`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {s && s.timestamp.length === 0 && (
+        <p class="text-xs text-[#999]">
+          No snapshots recorded in this range yet.
+        </p>
+      )}
+
+      {s && s.timestamp.length > 0 && (
+        <div class="space-y-6">
+          <div class="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <TrendChart
+              label="Total prefixes"
+              timestamps={s.timestamp}
+              values={s.total}
+            />
+            <TrendChart
+              label="IPv4 prefixes"
+              timestamps={s.timestamp}
+              values={s.v4}
+            />
+            <TrendChart
+              label="IPv6 prefixes"
+              timestamps={s.timestamp}
+              values={s.v6}
+              color="#4f46e5"
+            />
+            <TrendChart
+              label="Avg visibility"
+              timestamps={s.timestamp}
+              values={s.avgVisibility}
+              color="#16a34a"
+            />
+            <TrendChart
+              label="Min visibility"
+              timestamps={s.timestamp}
+              values={s.minVisibility}
+              color="#dc2626"
+            />
+            <TrendChart
+              label="Max visibility"
+              timestamps={s.timestamp}
+              values={s.maxVisibility}
+              color="#16a34a"
+            />
+          </div>
+
+          <div class="grid grid-cols-2 md:grid-cols-5 gap-6">
+            {s.buckets.map((b, i) => (
+              <TrendChart
+                key={b.label}
+                label={`${b.label} peers`}
+                timestamps={s.timestamp}
+                values={b.counts}
+                color={BUCKET_COLORS[i]}
+              />
+            ))}
+          </div>
+
+          <div>
+            <div class="text-xs text-[#999] mb-2">IXP presence changes</div>
+            {flips.length === 0
+              ? (
+                <p class="text-xs text-[#bbb]">
+                  No network joined or left a monitored IXP in this range.
+                </p>
+              )
+              : (
+                <div class="space-y-1.5">
+                  {flips.map(({ ixp, net }) => (
+                    <div
+                      key={`${ixp.id}-${net.asn}`}
+                      class="flex items-center gap-3 text-xs"
+                    >
+                      <span class="w-48 shrink-0 text-[#666]">
+                        {ixp.name} · {net.name}
+                      </span>
+                      <div class="flex flex-1 h-2 rounded-full overflow-hidden">
+                        {net.present.map((p, i) => (
+                          <div
+                            key={i}
+                            class={`flex-1 ${
+                              p === null
+                                ? "bg-[#eee]"
+                                : p
+                                ? "bg-green-500"
+                                : "bg-[#ccc]"
+                            }`}
+                            title={new Date(s.timestamp[i]).toLocaleString()}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
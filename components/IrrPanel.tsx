@@ -0,0 +1,128 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface OriginMismatch {
+  prefix: string;
+  irrOrigins: number[];
+}
+
+interface IrrReport {
+  announced: number;
+  registered: number;
+  mismatched: OriginMismatch[];
+  missing: string[];
+  unannounced: string[];
+  routeObjects: number;
+}
+
+type IrrTab = "mismatched" | "missing" | "unannounced";
+
+const TAB_LABELS: Record<IrrTab, string> = {
+  mismatched: "Other origin",
+  missing: "No route object",
+  unannounced: "Not announced",
+};
+
+const LIST_LIMIT = 100;
+
+// Announced prefixes vs. IRR route objects. Hidden when no IRR dump is
+// configured.
+export function IrrPanel({ asn }: { asn: number }) {
+  const report = useSignal<IrrReport | null>(null);
+  const tab = useSignal<IrrTab>("mismatched");
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    report.value = null;
+    error.value = null;
+    fetch(`/api/irr?asn=${asn}`)
+      .then((r) => {
+        if (r.status === 404) return null;
+        return r.json();
+      })
+      .then((resp) => {
+        if (!resp) return;
+        if (resp.success) {
+          report.value = resp;
+        } else {
+          error.value = resp.error || "IRR check unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch IRR check";
+      });
+  }, [asn]);
+
+  if (!report.value && !error.value) return null;
+  const r = report.value;
+  const rows: { prefix: string; note?: string }[] = !r
+    ? []
+    : tab.value === "mismatched"
+    ? r.mismatched.map((m) => ({
+      prefix: m.prefix,
+      note: m.irrOrigins.map((o) => `AS${o}`).join(", "),
+    }))
+    : r[tab.value].map((prefix) => ({ prefix }));
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          IRR Route Objects
+        </h3>
+        {r && (
+          <span class="text-xs text-[#999]">
+            {r.registered.toLocaleString()} of {r.announced.toLocaleString()}
+            {" "}
+            announced prefixes registered
+          </span>
+        )}
+      </div>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {r && (
+        <>
+          <div class="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(TAB_LABELS) as IrrTab[]).map((t) => (
+              <button
+                key={t}
+                type="button"
+                onClick={() => (tab.value = t)}
+                class={`text-xs px-2 py-1 rounded ${
+                  t === tab.value
+                    ? "bg-[#111] text-white"
+                    : "bg-[#fafafa] text-[#666] hover:text-[#111]"
+                }`}
+              >
+                {TAB_LABELS[t]} · {r[t].length.toLocaleString()}
+              </button>
+            ))}
+          </div>
+          {rows.length === 0
+            ? <p class="text-xs text-[#999]">Nothing to report.</p>
+            : (
+              <div class="space-y-1 max-h-64 overflow-y-auto text-xs">
+                {rows.slice(0, LIST_LIMIT).map((row) => (
+                  <div
+                    key={row.prefix}
+                    class="flex items-center justify-between"
+                  >
+                    <code class="text-[#111]">{row.prefix}</code>
+                    {row.note && (
+                      <span class="text-amber-700">IRR: {row.note}</span>
+                    )}
+                  </div>
+                ))}
+                {rows.length > LIST_LIMIT && (
+                  <p class="text-[#999]">
+                    and {(rows.length - LIST_LIMIT).toLocaleString()} more
+                  </p>
+                )}
+              </div>
+            )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface Region {
+  id: string;
+  label: string;
+}
+
+interface Selection {
+  region: string;
+  country: string | null;
+  ids: number[] | null;
+}
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+// Flag emoji from the regional indicator symbols of an ISO 3166 code.
+export function countryFlag(code: string): string {
+  if (!/^[A-Z]{2}$/.test(code)) return "";
+  return String.fromCodePoint(
+    ...[...code].map((c) => 0x1f1e6 + c.charCodeAt(0) - 65),
+  );
+}
+
+export function countryName(code: string): string {
+  try {
+    return regionNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function selectionQuery(s: Selection): string {
+  const params = new URLSearchParams({ region: s.region });
+  if (s.country) params.set("country", s.country);
+  if (s.ids) params.set("ids", s.ids.join(","));
+  return params.toString();
+}
+
+// Region, country or hand-picked PeeringDB IX ids for the IXP grid. Reports
+// the presence rows for the selection, or null for the configured default,
+// which the stored result already covers.
+export function IxpSelector<T>(
+  { asn, onChange }: { asn: number; onChange: (ixps: T[] | null) => void },
+) {
+  const selection = useSignal<Selection | null>(null);
+  // Query string of the user's choice; empty until they make one.
+  const query = useSignal("");
+  const defaultRegion = useSignal<string | null>(null);
+  const regions = useSignal<Region[]>([]);
+  const countries = useSignal<string[]>([]);
+  const idsInput = useSignal("");
+  const loading = useSignal(false);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    loading.value = true;
+    error.value = null;
+    fetch(`/api/ixps?asn=${asn}${query.value ? `&${query.value}` : ""}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          regions.value = resp.regions;
+          countries.value = resp.countries;
+          defaultRegion.value = resp.defaultRegion;
+          const s: Selection = resp.selection;
+          const isDefault = !s.country && !s.ids &&
+            s.region === resp.defaultRegion;
+          onChange(isDefault ? null : resp.ixps);
+          selection.value = s;
+        } else {
+          error.value = resp.error || "IXP catalog unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch IXP catalog";
+      })
+      .finally(() => {
+        loading.value = false;
+      });
+  }, [asn, query.value]);
+
+  const current = selection.value;
+  if (!current) return null;
+
+  const select = (next: Partial<Selection>) => {
+    query.value = selectionQuery({ ...current, ...next });
+  };
+
+  const applyIds = (e: Event) => {
+    e.preventDefault();
+    const ids = idsInput.value
+      .split(/[\s,]+/)
+      .map(Number)
+      .filter((id) => Number.isInteger(id) && id > 0);
+    select({ ids: ids.length > 0 ? ids : null });
+  };
+
+  return (
+    <div class="bg-white rounded-lg shadow p-4 mb-4">
+      <div class="flex flex-wrap items-center gap-2">
+        <span class="text-xs text-[#999] mr-1">IXPs</span>
+        {regions.value.map((r) => (
+          <button
+            key={r.id}
+            type="button"
+            title={r.id === defaultRegion.value ? "Default region" : undefined}
+            onClick={() => select({ region: r.id, country: null, ids: null })}
+            class={`text-xs px-2 py-1 rounded ${
+              r.id === current.region && !current.ids
+                ? "bg-[#111] text-white"
+                : "bg-[#fafafa] text-[#666] hover:text-[#111]"
+            }`}
+          >
+            {r.label}
+          </button>
+        ))}
+        {countries.value.length > 0 && !current.ids && (
+          <select
+            value={current.country ?? ""}
+            onChange={(e) => select({ country: e.currentTarget.value || null })}
+            class="px-2 py-1 text-xs rounded border border-[#eee]"
+          >
+            <option value="">All countries</option>
+            {countries.value.map((c) => (
+              <option key={c} value={c}>
+                {countryFlag(c)} {countryName(c)}
+              </option>
+            ))}
+          </select>
+        )}
+        <form onSubmit={applyIds} class="flex gap-2 ml-auto">
+          <input
+            type="text"
+            placeholder="PeeringDB IX ids, e.g. 26,31"
+            value={idsInput.value}
+            onInput={(e) => (idsInput.value = e.currentTarget.value)}
+            class="px-2 py-1 text-xs rounded border border-[#eee] w-44"
+          />
+          <button
+            type="submit"
+            class="px-3 py-1 text-xs rounded bg-[#111] text-white"
+          >
+            Show
+          </button>
+          {current.ids && (
+            <button
+              type="button"
+              onClick={() => {
+                idsInput.value = "";
+                select({ ids: null });
+              }}
+              class="px-3 py-1 text-xs rounded bg-[#fafafa] text-[#666] hover:text-[#111]"
+            >
+              Clear
+            </button>
+          )}
+        </form>
+        {loading.value && <span class="text-xs text-[#999]">Loading...</span>}
+      </div>
+      {error.value && <p class="text-xs text-red-600 mt-2">{error.value}</p>}
+    </div>
+  );
+}
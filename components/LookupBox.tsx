@@ -0,0 +1,123 @@
+import { useSignal } from "@preact/signals";
+
+interface TrieRoute {
+  prefix: string;
+  asn: number;
+  hits: number;
+}
+
+interface LookupResult {
+  query: string;
+  match: TrieRoute | null;
+  lessSpecifics: TrieRoute[];
+  moreSpecifics: TrieRoute[];
+  moreSpecificsTotal: number;
+}
+
+function RouteRow({ route }: { route: TrieRoute }) {
+  return (
+    <div class="flex items-center justify-between text-xs">
+      <span>
+        <code class="text-[#111]">{route.prefix}</code>{" "}
+        <span class="text-[#bbb]">AS{route.asn}</span>
+      </span>
+      <span class="text-[#666]">{route.hits.toLocaleString()} peers</span>
+    </div>
+  );
+}
+
+export function LookupBox() {
+  const query = useSignal("");
+  const result = useSignal<LookupResult | null>(null);
+  const error = useSignal<string | null>(null);
+  const loading = useSignal(false);
+
+  const submit = (e: Event) => {
+    e.preventDefault();
+    const q = query.value.trim();
+    if (!q) return;
+    loading.value = true;
+    error.value = null;
+    fetch(`/api/lookup?ip=${encodeURIComponent(q)}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          result.value = resp;
+        } else {
+          result.value = null;
+          error.value = resp.error || "Lookup failed";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to look up prefix";
+      })
+      .finally(() => {
+        loading.value = false;
+      });
+  };
+
+  const r = result.value;
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+        Prefix Lookup
+      </h3>
+      <form onSubmit={submit} class="flex gap-2 mb-4">
+        <input
+          type="text"
+          placeholder="104.16.132.229 or 2606:4700::/32"
+          value={query.value}
+          onInput={(e) => (query.value = e.currentTarget.value)}
+          class="flex-1 px-3 py-1.5 text-sm rounded border border-[#eee]"
+        />
+        <button
+          type="submit"
+          disabled={loading.value}
+          class="px-3 py-1.5 text-xs rounded bg-[#111] text-white disabled:opacity-50"
+        >
+          {loading.value ? "Looking up..." : "Look up"}
+        </button>
+      </form>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {r && (
+        <div class="space-y-4">
+          <div>
+            <div class="text-xs text-[#999] mb-1">
+              Longest match for <code>{r.query}</code>
+            </div>
+            {r.match
+              ? <RouteRow route={r.match} />
+              : <p class="text-xs text-[#999]">Not covered by any route.</p>}
+          </div>
+          {r.lessSpecifics.length > 0 && (
+            <div>
+              <div class="text-xs text-[#999] mb-1">Less specifics</div>
+              <div class="space-y-1">
+                {r.lessSpecifics.map((route) => (
+                  <RouteRow key={route.prefix} route={route} />
+                ))}
+              </div>
+            </div>
+          )}
+          {r.moreSpecificsTotal > 0 && (
+            <div>
+              <div class="text-xs text-[#999] mb-1">
+                More specifics ({r.moreSpecificsTotal.toLocaleString()}
+                {r.moreSpecificsTotal > r.moreSpecifics.length &&
+                  `, first ${r.moreSpecifics.length} shown`})
+              </div>
+              <div class="space-y-1 max-h-64 overflow-y-auto">
+                {r.moreSpecifics.map((route) => (
+                  <RouteRow key={route.prefix} route={route} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
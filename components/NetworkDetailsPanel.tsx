@@ -0,0 +1,173 @@
+import { useSignal } from "@preact/signals";
+import type { ComponentChildren } from "preact";
+import { useEffect } from "preact/hooks";
+
+interface NetworkInfo {
+  asn: number;
+  name: string;
+  policyGeneral: string | null;
+  policyUrl: string | null;
+  infoType: string | null;
+  infoTraffic: string | null;
+  infoRatio: string | null;
+  infoScope: string | null;
+  irrAsSet: string | null;
+  website: string | null;
+  fetchedAt: number;
+  dataStatus: "fresh" | "stale";
+}
+
+const POLICY_STYLES: Record<string, string> = {
+  Open: "bg-green-100 text-green-700",
+  Selective: "bg-amber-100 text-amber-700",
+  Restrictive: "bg-red-100 text-red-700",
+  No: "bg-red-100 text-red-700",
+};
+
+// What a "not present" result likely means given the peer's policy.
+const POLICY_NOTES: Record<string, string> = {
+  Open:
+    "Peers with anyone, so absence at an IXP is a gap in its footprint rather than a choice.",
+  Selective:
+    "Peers case by case; absence at an IXP may reflect traffic thresholds or commercial terms.",
+  Restrictive:
+    "Rarely peers publicly; expect traffic to arrive via transit or private interconnects.",
+  No: "Does not peer; all traffic arrives via transit.",
+};
+
+function Field(
+  { label, children }: { label: string; children: ComponentChildren },
+) {
+  return (
+    <div>
+      <dt class="text-[#999]">{label}</dt>
+      <dd class="text-[#111]">{children}</dd>
+    </div>
+  );
+}
+
+export function NetworkDetailsPanel({ asn }: { asn: number }) {
+  const networks = useSignal<NetworkInfo[] | null>(null);
+  // ASNs PeeringDB could not be asked about, with nothing cached.
+  const unavailable = useSignal<number[]>([]);
+  const selected = useSignal<number>(asn);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    selected.value = asn;
+    fetch(`/api/networks?asn=${asn}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          networks.value = resp.networks;
+          unavailable.value = resp.unavailable;
+        } else {
+          error.value = resp.error || "Network details unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch network details";
+      });
+  }, [asn]);
+
+  const current = networks.value?.find((n) => n.asn === selected.value);
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+        Network Details
+      </h3>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {networks.value && (
+        <div class="flex flex-wrap gap-2 mb-4">
+          {networks.value.map((n) => (
+            <button
+              key={n.asn}
+              type="button"
+              onClick={() => (selected.value = n.asn)}
+              class={`text-xs px-2 py-1 rounded ${
+                n.asn === selected.value
+                  ? "bg-[#111] text-white"
+                  : "bg-[#fafafa] text-[#666] hover:text-[#111]"
+              }`}
+            >
+              {n.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {networks.value && !current && (
+        unavailable.value.includes(selected.value)
+          ? (
+            <p class="text-xs text-amber-700">
+              PeeringDB details for AS{selected.value}{" "}
+              are unavailable right now.
+            </p>
+          )
+          : (
+            <p class="text-xs text-[#999]">
+              AS{selected.value} has no PeeringDB record.
+            </p>
+          )
+      )}
+
+      {current && (
+        <div class="text-xs">
+          <div class="flex items-center gap-2 mb-2">
+            <span class="font-medium text-[#111]">{current.name}</span>
+            <span class="text-[#bbb]">AS{current.asn}</span>
+            {current.dataStatus === "stale" && (
+              <span
+                class="text-amber-600"
+                title="Cached PeeringDB data, refresh failed"
+              >
+                cached
+              </span>
+            )}
+            {current.policyGeneral && (
+              <span
+                class={`px-2 py-0.5 rounded ${
+                  POLICY_STYLES[current.policyGeneral] ??
+                    "bg-[#f3f3f3] text-[#666]"
+                }`}
+              >
+                {current.policyGeneral} peering
+              </span>
+            )}
+          </div>
+          {current.policyGeneral && POLICY_NOTES[current.policyGeneral] && (
+            <p class="text-[#666] mb-4">
+              {POLICY_NOTES[current.policyGeneral]}
+            </p>
+          )}
+          <dl class="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <Field label="Type">{current.infoType ?? "—"}</Field>
+            <Field label="Traffic">{current.infoTraffic ?? "—"}</Field>
+            <Field label="Ratio">{current.infoRatio ?? "—"}</Field>
+            <Field label="Scope">{current.infoScope ?? "—"}</Field>
+            <Field label="IRR as-set">
+              {current.irrAsSet ? <code>{current.irrAsSet}</code> : "—"}
+            </Field>
+            <Field label="Contact">
+              {current.policyUrl || current.website
+                ? (
+                  <a
+                    href={current.policyUrl ?? current.website!}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    class="text-blue-600 hover:underline break-all"
+                  >
+                    {current.policyUrl ? "Peering policy" : "Website"}
+                  </a>
+                )
+                : "—"}
+            </Field>
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface MatrixRow {
+  asn: number;
+  name: string;
+  dataStatus: "fresh" | "stale" | "unknown";
+  speeds: number[];
+  present: boolean[];
+}
+
+interface PresenceMatrix {
+  ixps: { id: number; name: string; country: string }[];
+  rows: MatrixRow[];
+}
+
+interface PairOverlap {
+  a: number;
+  b: number;
+  shared: number;
+  onlyA: number;
+  onlyB: number;
+  score: number;
+}
+
+interface OverlapData {
+  matrix: PresenceMatrix;
+  networks: { asn: number; name: string; ixps: number }[];
+  pairs: PairOverlap[];
+}
+
+// Green with an opacity from 0.15 to 1, so any presence stays visible.
+function heat(fraction: number): string {
+  const alpha = 0.15 + 0.85 * Math.min(Math.max(fraction, 0), 1);
+  return `rgba(22, 163, 74, ${alpha.toFixed(2)})`;
+}
+
+function formatSpeed(mbps: number): string {
+  return mbps >= 1000 ? `${Math.round(mbps / 1000)}G` : `${mbps}M`;
+}
+
+function PresenceHeatmap({ matrix }: { matrix: PresenceMatrix }) {
+  // Port capacity on a log scale: 1G and 1T ports should both register.
+  const maxLog = Math.log10(
+    1 + Math.max(1, ...matrix.rows.flatMap((r) => r.speeds)),
+  );
+  return (
+    <div class="overflow-x-auto">
+      <table class="text-xs border-separate border-spacing-0.5">
+        <thead>
+          <tr>
+            <th />
+            {matrix.ixps.map((ixp) => (
+              <th
+                key={ixp.id}
+                class="px-1 pb-1 font-normal text-[#666] align-bottom"
+                title={`${ixp.name} (${ixp.country})`}
+              >
+                <div class="w-12 truncate">{ixp.name}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rows.map((row) => (
+            <tr key={row.asn}>
+              <td class="pr-2 text-[#111] whitespace-nowrap">
+                {row.name}
+                {row.dataStatus === "stale" && (
+                  <span class="text-amber-600" title="Cached PeeringDB data">
+                    {" "}*
+                  </span>
+                )}
+              </td>
+              {row.dataStatus === "unknown" && (
+                <td
+                  colSpan={row.present.length}
+                  class="h-6 text-center rounded bg-amber-50 text-amber-700"
+                >
+                  PeeringDB data unavailable
+                </td>
+              )}
+              {row.dataStatus !== "unknown" &&
+                row.present.map((present, i) => (
+                  <td
+                    key={matrix.ixps[i].id}
+                    class={`h-6 text-center rounded ${
+                      present ? "text-white" : "bg-[#f3f3f3]"
+                    }`}
+                    style={present
+                      ? {
+                        backgroundColor: heat(
+                          Math.log10(1 + row.speeds[i]) / maxLog,
+                        ),
+                      }
+                      : undefined}
+                    title={`${row.name} at ${matrix.ixps[i].name}: ${
+                      present ? formatSpeed(row.speeds[i]) : "not present"
+                    }`}
+                  >
+                    {present && row.speeds[i] > 0 && (
+                      <span class="text-[10px]">
+                        {formatSpeed(row.speeds[i])}
+                      </span>
+                    )}
+                  </td>
+                ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PairHeatmap(
+  { networks, pairs }: Pick<OverlapData, "networks" | "pairs">,
+) {
+  const byPair = new Map<string, PairOverlap>();
+  for (const p of pairs) {
+    byPair.set(`${p.a}:${p.b}`, p);
+    byPair.set(`${p.b}:${p.a}`, {
+      ...p,
+      a: p.b,
+      b: p.a,
+      onlyA: p.onlyB,
+      onlyB: p.onlyA,
+    });
+  }
+  return (
+    <div class="overflow-x-auto">
+      <table class="text-xs border-separate border-spacing-0.5">
+        <thead>
+          <tr>
+            <th />
+            {networks.map((n) => (
+              <th key={n.asn} class="px-1 pb-1 font-normal text-[#666]">
+                <div class="w-14 truncate">{n.name}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {networks.map((row) => (
+            <tr key={row.asn}>
+              <td class="pr-2 text-[#111] whitespace-nowrap">{row.name}</td>
+              {networks.map((col) => {
+                if (col.asn === row.asn) {
+                  return (
+                    <td
+                      key={col.asn}
+                      class="h-8 text-center rounded bg-[#fafafa] text-[#999]"
+                      title={`${row.name} is on ${row.ixps} IXPs`}
+                    >
+                      {row.ixps}
+                    </td>
+                  );
+                }
+                const p = byPair.get(`${row.asn}:${col.asn}`);
+                if (!p) return <td key={col.asn} />;
+                return (
+                  <td
+                    key={col.asn}
+                    class={`h-8 text-center rounded ${
+                      p.score >= 0.5 ? "text-white" : "text-[#111]"
+                    }`}
+                    style={{ backgroundColor: heat(p.score) }}
+                    title={`${p.shared} shared · ${p.onlyA} only ${row.name} · ${p.onlyB} only ${col.name}`}
+                  >
+                    {p.shared}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Which networks meet where: presence at the IXPs on display, and how much
+// each pair's worldwide IXP footprints overlap.
+export function OverlapPanel(
+  { asn, ixpIds }: { asn: number; ixpIds: string },
+) {
+  const data = useSignal<OverlapData | null>(null);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    data.value = null;
+    error.value = null;
+    const ids = ixpIds ? `&ids=${ixpIds}` : "";
+    fetch(`/api/overlap?asn=${asn}${ids}`)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          data.value = resp;
+        } else {
+          error.value = resp.error || "Overlap unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch overlap";
+      });
+  }, [asn, ixpIds]);
+
+  const d = data.value;
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+        Peering Overlap
+      </h3>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {d && (
+        <div class="space-y-6">
+          <div>
+            <div class="text-xs text-[#999] mb-2">
+              Presence and port capacity at these IXPs
+            </div>
+            <PresenceHeatmap matrix={d.matrix} />
+          </div>
+          {d.pairs.length > 0 && (
+            <div>
+              <div class="text-xs text-[#999] mb-2">
+                IXPs shared worldwide; shade is shared over either network's
+                IXPs
+              </div>
+              <PairHeatmap networks={d.networks} pairs={d.pairs} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+interface UpstreamSummary {
+  asn: number;
+  prefixes: number;
+  routes: number;
+}
+
+interface PeerVisibility {
+  asn: number;
+  ip: string;
+  prefixes: number;
+  share: number;
+}
+
+interface PathAnalysis {
+  prefixes: number;
+  collectorPeers: number;
+  directRoutes: number;
+  upstreams: UpstreamSummary[];
+  peers: PeerVisibility[];
+}
+
+const LIST_LIMIT = 10;
+
+// Upstreams and per-peer visibility from our own collector's MRT dump. Hidden
+// when the routing table source has no AS paths.
+export function PathsPanel({ asn }: { asn: number }) {
+  const data = useSignal<PathAnalysis | null>(null);
+  const error = useSignal<string | null>(null);
+
+  useEffect(() => {
+    data.value = null;
+    error.value = null;
+    fetch(`/api/paths?asn=${asn}`)
+      .then((r) => {
+        if (r.status === 404) return null;
+        return r.json();
+      })
+      .then((resp) => {
+        if (!resp) return;
+        if (resp.success) {
+          data.value = resp;
+        } else {
+          error.value = resp.error || "Path data unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch path data";
+      });
+  }, [asn]);
+
+  if (!data.value && !error.value) return null;
+  const d = data.value;
+  const partial = d?.peers.filter((p) => p.share < 1) ?? [];
+
+  return (
+    <div class="bg-white rounded-lg shadow p-6 mb-6">
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          Upstreams & Collector Peers
+        </h3>
+        {d && (
+          <span class="text-xs text-[#999]">
+            {d.prefixes.toLocaleString()} prefixes · {d.collectorPeers} peers
+          </span>
+        )}
+      </div>
+
+      {error.value && <p class="text-xs text-red-600">{error.value}</p>}
+
+      {d && (
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-6 text-xs">
+          <div>
+            <div class="text-[#999] mb-2">Learned through</div>
+            <div class="space-y-1">
+              {d.upstreams.slice(0, LIST_LIMIT).map((u) => (
+                <div key={u.asn} class="flex items-center justify-between">
+                  <span class="text-[#111]">AS{u.asn}</span>
+                  <span class="text-[#666]">
+                    {u.prefixes.toLocaleString()} prefixes ·{" "}
+                    {u.routes.toLocaleString()} routes
+                  </span>
+                </div>
+              ))}
+              {d.directRoutes > 0 && (
+                <div class="flex items-center justify-between">
+                  <span class="text-[#111]">Direct</span>
+                  <span class="text-[#666]">
+                    {d.directRoutes.toLocaleString()} routes
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+          <div>
+            <div class="text-[#999] mb-2">Peers missing prefixes</div>
+            {partial.length === 0
+              ? <p class="text-[#999]">Every peer sees every prefix.</p>
+              : (
+                <div class="space-y-1">
+                  {partial.slice(0, LIST_LIMIT).map((p) => (
+                    <div key={p.ip} class="flex items-center justify-between">
+                      <span>
+                        <span class="text-[#111]">AS{p.asn}</span>{" "}
+                        <code class="text-[#bbb]">{p.ip}</code>
+                      </span>
+                      <span class="text-[#666]">
+                        {(p.share * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
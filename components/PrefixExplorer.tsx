@@ -0,0 +1,363 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+
+type RpkiStatus = "valid" | "invalid" | "not-found";
+
+interface CfPrefixInfo {
+  prefix: string;
+  type: "v4" | "v6";
+  visibility: number;
+  mask: number;
+  rpki: RpkiStatus | null;
+  coveredBy: string | null;
+}
+
+type SortKey = "prefix" | "mask" | "visibility";
+
+interface Filters {
+  search: string;
+  family: string;
+  minMask: string;
+  maxMask: string;
+  minVisibility: string;
+  maxVisibility: string;
+  rpki: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  search: "",
+  family: "",
+  minMask: "",
+  maxMask: "",
+  minVisibility: "",
+  maxVisibility: "",
+  rpki: "",
+};
+
+const RPKI_STYLES: Record<RpkiStatus, string> = {
+  valid: "bg-green-100 text-green-700",
+  invalid: "bg-red-100 text-red-700",
+  "not-found": "bg-[#f3f3f3] text-[#666]",
+};
+
+const PAGE_SIZE = 50;
+
+// A search containing "/" is a CIDR to look inside; anything else matches
+// the prefix text.
+function queryString(
+  asn: number,
+  filters: Filters,
+  sort: SortKey,
+  order: "asc" | "desc",
+): string {
+  const params = new URLSearchParams({
+    asn: String(asn),
+    sort,
+    order,
+    limit: String(PAGE_SIZE),
+  });
+  const search = filters.search.trim();
+  if (search) params.set(search.includes("/") ? "within" : "q", search);
+  for (
+    const name of [
+      "family",
+      "minMask",
+      "maxMask",
+      "minVisibility",
+      "maxVisibility",
+      "rpki",
+    ] as const
+  ) {
+    if (filters[name]) params.set(name, filters[name]);
+  }
+  return params.toString();
+}
+
+// Every prefix of an AS, filtered, sorted and paged by /api/prefixes.
+export function PrefixExplorer(
+  { asn, avgVisibility }: { asn: number; avgVisibility: number },
+) {
+  const draft = useSignal<Filters>(EMPTY_FILTERS);
+  const filters = useSignal<Filters>(EMPTY_FILTERS);
+  const sort = useSignal<SortKey>("visibility");
+  const order = useSignal<"asc" | "desc">("asc");
+  const items = useSignal<CfPrefixInfo[]>([]);
+  const total = useSignal(0);
+  const nextCursor = useSignal<string | null>(null);
+  const loading = useSignal(false);
+  const error = useSignal<string | null>(null);
+
+  const query = queryString(asn, filters.value, sort.value, order.value);
+
+  const load = (cursor: string | null) => {
+    loading.value = true;
+    error.value = null;
+    const url = `/api/prefixes?${query}${
+      cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+    }`;
+    fetch(url)
+      .then((r) => r.json())
+      .then((resp) => {
+        if (resp.success) {
+          items.value = cursor ? [...items.value, ...resp.items] : resp.items;
+          total.value = resp.total;
+          nextCursor.value = resp.nextCursor;
+        } else {
+          error.value = resp.error || "Prefixes unavailable";
+        }
+      })
+      .catch(() => {
+        error.value = "Failed to fetch prefixes";
+      })
+      .finally(() => {
+        loading.value = false;
+      });
+  };
+
+  useEffect(() => {
+    items.value = [];
+    nextCursor.value = null;
+    load(null);
+  }, [query]);
+
+  const setDraft = (name: keyof Filters, value: string) => {
+    draft.value = { ...draft.value, [name]: value };
+  };
+
+  const apply = (e: Event) => {
+    e.preventDefault();
+    filters.value = draft.value;
+  };
+
+  const reset = () => {
+    draft.value = EMPTY_FILTERS;
+    filters.value = EMPTY_FILTERS;
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (sort.value === key) {
+      order.value = order.value === "asc" ? "desc" : "asc";
+    } else {
+      sort.value = key;
+      order.value = "asc";
+    }
+  };
+
+  const header = (key: SortKey, label: string, align: "left" | "right") => (
+    <th
+      class={`text-${align} px-4 py-3 text-xs font-medium uppercase tracking-wider`}
+    >
+      <button
+        type="button"
+        onClick={() => toggleSort(key)}
+        class={sort.value === key
+          ? "text-[#111] uppercase tracking-wider"
+          : "text-[#666] hover:text-[#111] uppercase tracking-wider"}
+      >
+        {label}
+        {sort.value === key && (order.value === "asc" ? " ↑" : " ↓")}
+      </button>
+    </th>
+  );
+
+  const input = "px-2 py-1 text-xs rounded border border-[#eee]";
+  const d = draft.value;
+
+  return (
+    <div class="bg-white rounded-lg shadow overflow-hidden mb-6">
+      <div class="px-4 py-3 bg-[#fafafa] border-b border-[#eee] flex items-center justify-between">
+        <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
+          Prefixes — {total.value.toLocaleString()} matching
+        </h3>
+        {loading.value && <span class="text-xs text-[#999]">Loading...</span>}
+      </div>
+
+      <form
+        onSubmit={apply}
+        class="px-4 py-3 border-b border-[#eee] flex flex-wrap items-center gap-2"
+      >
+        <input
+          type="text"
+          placeholder="Search or 104.16.0.0/12"
+          value={d.search}
+          onInput={(e) => setDraft("search", e.currentTarget.value)}
+          class={`${input} flex-1 min-w-[10rem]`}
+        />
+        <select
+          value={d.family}
+          onChange={(e) => setDraft("family", e.currentTarget.value)}
+          class={input}
+        >
+          <option value="">IPv4 + IPv6</option>
+          <option value="v4">IPv4</option>
+          <option value="v6">IPv6</option>
+        </select>
+        <select
+          value={d.rpki}
+          onChange={(e) => setDraft("rpki", e.currentTarget.value)}
+          class={input}
+        >
+          <option value="">Any RPKI</option>
+          <option value="valid">valid</option>
+          <option value="invalid">invalid</option>
+          <option value="not-found">not-found</option>
+        </select>
+        <span class="text-xs text-[#999]">Mask</span>
+        <input
+          type="number"
+          min={0}
+          max={128}
+          placeholder="min"
+          value={d.minMask}
+          onInput={(e) => setDraft("minMask", e.currentTarget.value)}
+          class={`${input} w-16`}
+        />
+        <input
+          type="number"
+          min={0}
+          max={128}
+          placeholder="max"
+          value={d.maxMask}
+          onInput={(e) => setDraft("maxMask", e.currentTarget.value)}
+          class={`${input} w-16`}
+        />
+        <span class="text-xs text-[#999]">Visibility</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="min"
+          value={d.minVisibility}
+          onInput={(e) => setDraft("minVisibility", e.currentTarget.value)}
+          class={`${input} w-20`}
+        />
+        <input
+          type="number"
+          min={0}
+          placeholder="max"
+          value={d.maxVisibility}
+          onInput={(e) => setDraft("maxVisibility", e.currentTarget.value)}
+          class={`${input} w-20`}
+        />
+        <button
+          type="submit"
+          class="px-3 py-1 text-xs rounded bg-[#111] text-white"
+        >
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={reset}
+          class="px-3 py-1 text-xs rounded bg-[#fafafa] text-[#666] hover:text-[#111]"
+        >
+          Reset
+        </button>
+      </form>
+
+      {error.value && (
+        <p class="px-4 py-3 text-xs text-red-600">{error.value}</p>
+      )}
+
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead>
+            <tr class="border-b border-[#eee] bg-[#fafafa]">
+              {header("prefix", "Prefix", "left")}
+              <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                Type
+              </th>
+              {header("mask", "Mask", "left")}
+              <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                RPKI
+              </th>
+              {header("visibility", "Visibility", "right")}
+              <th class="text-right px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
+                vs Avg
+              </th>
+            </tr>
+          </thead>
+          <tbody class="divide-y divide-[#eee]">
+            {items.value.map((p) => {
+              const pctOfAvg = avgVisibility > 0
+                ? Math.round((p.visibility / avgVisibility) * 100)
+                : 0;
+              return (
+                <tr key={p.prefix} class="hover:bg-[#fafafa]">
+                  <td class="px-4 py-3">
+                    <code class="text-[#111]">{p.prefix}</code>
+                    {p.coveredBy && (
+                      <div class="text-xs text-[#999]">
+                        covered by <code>{p.coveredBy}</code>
+                      </div>
+                    )}
+                  </td>
+                  <td class="px-4 py-3">
+                    <span
+                      class={`text-xs px-2 py-0.5 rounded ${
+                        p.type === "v4"
+                          ? "bg-blue-100 text-blue-700"
+                          : "bg-indigo-100 text-indigo-700"
+                      }`}
+                    >
+                      IPv{p.type === "v4" ? "4" : "6"}
+                    </span>
+                  </td>
+                  <td class="px-4 py-3 text-[#999]">/{p.mask}</td>
+                  <td class="px-4 py-3">
+                    {p.rpki
+                      ? (
+                        <span
+                          class={`text-xs px-2 py-0.5 rounded ${
+                            RPKI_STYLES[p.rpki]
+                          }`}
+                        >
+                          {p.rpki}
+                        </span>
+                      )
+                      : <span class="text-xs text-[#bbb]">—</span>}
+                  </td>
+                  <td class="px-4 py-3 text-right">
+                    <span
+                      class={`text-sm ${
+                        p.visibility < 500
+                          ? "text-red-600"
+                          : p.visibility < avgVisibility
+                          ? "text-orange-600"
+                          : "text-[#111]"
+                      }`}
+                    >
+                      {p.visibility.toLocaleString()}
+                    </span>
+                  </td>
+                  <td class="px-4 py-3 text-right">
+                    <span class="text-xs text-[#999]">{pctOfAvg}%</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading.value && !error.value && items.value.length === 0 && (
+        <p class="px-4 py-3 text-xs text-[#999]">No matching prefixes.</p>
+      )}
+
+      {nextCursor.value && (
+        <div class="px-4 py-3 border-t border-[#eee] flex items-center justify-between">
+          <span class="text-xs text-[#999]">
+            Showing {items.value.length.toLocaleString()} of{" "}
+            {total.value.toLocaleString()}
+          </span>
+          <button
+            type="button"
+            disabled={loading.value}
+            onClick={() => load(nextCursor.value)}
+            class="text-xs text-blue-600 hover:underline disabled:opacity-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+interface TrendChartProps {
+  label: string;
+  timestamps: number[];
+  values: number[];
+  color?: string;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+
+export function TrendChart(
+  { label, timestamps, values, color = "#2563eb" }: TrendChartProps,
+) {
+  if (values.length === 0) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const first = timestamps[0];
+  const duration = timestamps[timestamps.length - 1] - first || 1;
+
+  const points = values
+    .map((v, i) => {
+      const x = values.length === 1
+        ? WIDTH / 2
+        : ((timestamps[i] - first) / duration) * WIDTH;
+      const y = HEIGHT - ((v - min) / span) * (HEIGHT - 4) - 2;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const latest = values[values.length - 1];
+  const delta = latest - values[0];
+
+  return (
+    <div>
+      <div class="flex items-baseline justify-between mb-1">
+        <span class="text-xs text-[#999]">{label}</span>
+        <span class="text-sm text-[#111]">
+          {latest.toLocaleString()}
+          {delta !== 0 && (
+            <span
+              class={`ml-1 text-xs ${
+                delta > 0 ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {delta > 0 ? "+" : ""}
+              {delta.toLocaleString()}
+            </span>
+          )}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        class="w-full h-12"
+      >
+        <polyline
+          points={points}
+          fill="none"
+          stroke={color}
+          stroke-width="1.5"
+          vector-effect="non-scaling-stroke"
+        />
+      </svg>
+      <div class="flex justify-between text-[10px] text-[#bbb]">
+        <span>min {min.toLocaleString()}</span>
+        <span>max {max.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
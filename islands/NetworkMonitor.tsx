@@ -1,12 +1,22 @@
 import { useSignal } from "@preact/signals";
 import { useEffect } from "preact/hooks";
-
-interface CfPrefixInfo {
-  prefix: string;
-  type: "v4" | "v6";
-  visibility: number;
-  mask: number;
-}
+import { AddressSpacePanel } from "../components/AddressSpacePanel.tsx";
+import { AsnSelector } from "../components/AsnSelector.tsx";
+import { ChangesPanel } from "../components/ChangesPanel.tsx";
+import { ExportPanel } from "../components/ExportPanel.tsx";
+import { FacilitiesPanel } from "../components/FacilitiesPanel.tsx";
+import { HistoryPanel } from "../components/HistoryPanel.tsx";
+import { IrrPanel } from "../components/IrrPanel.tsx";
+import {
+  countryFlag,
+  countryName,
+  IxpSelector,
+} from "../components/IxpSelector.tsx";
+import { LookupBox } from "../components/LookupBox.tsx";
+import { NetworkDetailsPanel } from "../components/NetworkDetailsPanel.tsx";
+import { OverlapPanel } from "../components/OverlapPanel.tsx";
+import { PathsPanel } from "../components/PathsPanel.tsx";
+import { PrefixExplorer } from "../components/PrefixExplorer.tsx";
 
 interface VisibilityBucket {
   label: string;
@@ -14,10 +24,23 @@ interface VisibilityBucket {
   count: number;
 }
 
+interface IxPort {
+  speed: number;
+  ipv4: string | null;
+  ipv6: string | null;
+  rsPeer: boolean;
+  operational: boolean;
+}
+
 interface NetworkPresence {
   asn: number;
   name: string;
   present: boolean;
+  // Missing from results stored before it was recorded.
+  dataStatus?: "fresh" | "stale" | "unknown";
+  ports: IxPort[];
+  totalSpeed: number;
+  rsPeer: boolean;
 }
 
 interface IxpResult {
@@ -27,7 +50,46 @@ interface IxpResult {
   networks: NetworkPresence[];
 }
 
+interface SharedIxp {
+  id: number;
+  name: string;
+  city: string;
+  country: string;
+  distanceKm: number | null;
+}
+
+interface FallbackPath {
+  ixpId: number;
+  asn: number;
+  name: string;
+  options: SharedIxp[];
+}
+
+interface PrefixChange {
+  timestamp: number;
+  prefix: string;
+  kind: "announced" | "withdrawn" | "visibility";
+  previousHits: number | null;
+  hits: number | null;
+}
+
+interface PushedChanges {
+  timestamp: number;
+  count: number;
+  changes: PrefixChange[];
+}
+
+interface SourceReport {
+  lastSuccess: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  ageMs: number | null;
+  stats?: Record<string, number>;
+}
+
 interface CheckData {
+  asn: number;
+  name: string;
   ixps: IxpResult[];
   bgp: {
     total: number;
@@ -36,41 +98,35 @@ interface CheckData {
     avgVisibility: number;
     minVisibility: number;
     maxVisibility: number;
-    lowVisibility: CfPrefixInfo[];
     visibilityBuckets: VisibilityBucket[];
+    rpki?: { valid: number; invalid: number; notFound: number } | null;
   };
+  ixpsGlobal: number;
   cfIxpsGlobal: number;
+  generatedAt: number;
+  ageMs: number;
+  stale: boolean;
+  refreshing: boolean;
+  sources: Record<string, SourceReport | null>;
   queryTime: number;
   cached?: boolean;
 }
 
-const COUNTRY_FLAGS: Record<string, string> = {
-  NL: "\u{1F1F3}\u{1F1F1}",
-  DE: "\u{1F1E9}\u{1F1EA}",
-  BE: "\u{1F1E7}\u{1F1EA}",
-  LU: "\u{1F1F1}\u{1F1FA}",
-  FR: "\u{1F1EB}\u{1F1F7}",
-  GB: "\u{1F1EC}\u{1F1E7}",
-  IT: "\u{1F1EE}\u{1F1F9}",
-  SE: "\u{1F1F8}\u{1F1EA}",
-  CH: "\u{1F1E8}\u{1F1ED}",
-  ES: "\u{1F1EA}\u{1F1F8}",
-  AT: "\u{1F1E6}\u{1F1F9}",
+const SOURCE_LABELS: Record<string, string> = {
+  bgp: "bgp.tools",
+  peeringdb: "PeeringDB",
+  rpki: "RPKI VRPs",
+  irr: "IRR",
 };
 
-const COUNTRY_NAMES: Record<string, string> = {
-  NL: "Netherlands",
-  DE: "Germany",
-  BE: "Belgium",
-  LU: "Luxembourg",
-  FR: "France",
-  GB: "United Kingdom",
-  IT: "Italy",
-  SE: "Sweden",
-  CH: "Switzerland",
-  ES: "Spain",
-  AT: "Austria",
-};
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
 
 function VisBar({ buckets }: { buckets: VisibilityBucket[] }) {
   const total = buckets.reduce((s, b) => s + b.count, 0);
@@ -100,37 +156,265 @@ function VisBar({ buckets }: { buckets: VisibilityBucket[] }) {
   );
 }
 
-export default function NetworkMonitor() {
+interface NetworkMonitorProps {
+  networks: { asn: number; name: string }[];
+  defaultAsn: number;
+}
+
+function formatSpeed(mbps: number): string {
+  if (mbps >= 1000 && mbps % 1000 === 0) return `${mbps / 1000}G`;
+  if (mbps >= 1000) return `${(mbps / 1000).toFixed(1)}G`;
+  return `${mbps}M`;
+}
+
+// Presence from an expired PeeringDB cache entry, served because PeeringDB
+// could not be reached.
+function StaleMark() {
+  return (
+    <span class="text-amber-600" title="Cached PeeringDB data, refresh failed">
+      *
+    </span>
+  );
+}
+
+// Nearest IXPs where Cloudflare and a network missing from this one both
+// peer: the likely path for their traffic in this region.
+function FallbackHint({ path }: { path: FallbackPath }) {
+  if (path.options.length === 0) {
+    return (
+      <div class="text-[10px] text-[#bbb] pl-2">
+        No shared IXP, reached via transit
+      </div>
+    );
+  }
+  const [nearest, ...others] = path.options;
+  const describe = (o: SharedIxp) =>
+    o.distanceKm === null
+      ? o.name
+      : `${o.name} (${o.distanceKm.toLocaleString()} km)`;
+  return (
+    <div
+      class="text-[10px] text-[#999] pl-2"
+      title={others.length > 0 ? `Also: ${others.map(describe).join(", ")}` : undefined}
+    >
+      via {describe(nearest)}
+    </div>
+  );
+}
+
+// "2×100G + 10G" style summary of a network's ports at one IXP.
+function PortDetails({ net }: { net: NetworkPresence }) {
+  if (net.ports.length === 0) return null;
+
+  const bySpeed = new Map<number, number>();
+  for (const p of net.ports) {
+    bySpeed.set(p.speed, (bySpeed.get(p.speed) ?? 0) + 1);
+  }
+  const summary = [...bySpeed]
+    .sort((a, b) => b[0] - a[0])
+    .map(([speed, n]) => `${n > 1 ? `${n}×` : ""}${formatSpeed(speed)}`)
+    .join(" + ");
+  const down = net.ports.filter((p) => !p.operational).length;
+  const addresses = net.ports
+    .flatMap((p) => [p.ipv4, p.ipv6])
+    .filter((a) => a !== null)
+    .join("\n");
+
+  return (
+    <div
+      class="flex items-center gap-2 text-[10px] text-[#999] pl-2"
+      title={addresses}
+    >
+      <span>
+        {summary}
+        {net.ports.length > 1 && ` = ${formatSpeed(net.totalSpeed)}`}
+      </span>
+      {net.rsPeer
+        ? <span class="px-1 rounded bg-blue-50 text-blue-700">RS</span>
+        : <span class="px-1 rounded bg-[#f3f3f3] text-[#999]">no RS</span>}
+      {down > 0 && (
+        <span class="px-1 rounded bg-red-50 text-red-600">
+          {down} port{down > 1 ? "s" : ""} down
+        </span>
+      )}
+    </div>
+  );
+}
+
+// What differs between two results of the same AS, as keys for highlighting:
+// "ixp:<id>:<asn>" for presence flips and the names of changed BGP stats.
+function changedKeys(previous: CheckData, next: CheckData): Set<string> {
+  const keys = new Set<string>();
+  const before = new Map<string, boolean>();
+  for (const ixp of previous.ixps) {
+    for (const net of ixp.networks) {
+      before.set(`ixp:${ixp.id}:${net.asn}`, net.present);
+    }
+  }
+  for (const ixp of next.ixps) {
+    for (const net of ixp.networks) {
+      const key = `ixp:${ixp.id}:${net.asn}`;
+      if (before.has(key) && before.get(key) !== net.present) keys.add(key);
+    }
+  }
+  for (const stat of ["total", "v4", "v6", "avgVisibility"] as const) {
+    if (previous.bgp[stat] !== next.bgp[stat]) keys.add(stat);
+  }
+  if (previous.ixpsGlobal !== next.ixpsGlobal) keys.add("ixpsGlobal");
+  return keys;
+}
+
+const RECONNECT_MAX_DELAY = 60_000;
+// While the first result of an AS is being collected, /api/check is asked
+// again this often: it reports a refresh that failed, which is never pushed.
+const PENDING_POLL_INTERVAL = 15_000;
+
+export default function NetworkMonitor(
+  { networks, defaultAsn }: NetworkMonitorProps,
+) {
+  const asn = useSignal(defaultAsn);
   const data = useSignal<CheckData | null>(null);
   const loading = useSignal(true);
   const error = useSignal<string | null>(null);
+  // Presence at another region's IXPs, null for the stored default region.
+  const regionIxps = useSignal<IxpResult[] | null>(null);
+  const fallbacks = useSignal<Map<string, FallbackPath>>(new Map());
+  // Live updates from /api/events.
+  const live = useSignal(false);
+  const highlights = useSignal<Set<string>>(new Set());
+  const pushedAt = useSignal<number | null>(null);
+  const pushedChanges = useSignal<PushedChanges | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    loading.value = true;
+    error.value = null;
+
+    const check = () => {
+      // The body carries ages that a revalidated copy would have frozen.
+      fetch(`/api/check?asn=${asn.value}`, { cache: "no-store" })
+        .then((r) => r.json())
+        .then((resp) => {
+          // A pushed result may have arrived in the meantime.
+          if (!loading.value) return;
+          // A pending result is pushed over /api/events once it is stored.
+          if (resp.pending) {
+            timer = setTimeout(check, PENDING_POLL_INTERVAL);
+            return;
+          }
+          if (resp.success) {
+            data.value = resp;
+          } else {
+            error.value = resp.error || "Check failed";
+          }
+          loading.value = false;
+        })
+        .catch(() => {
+          error.value = "Failed to fetch data";
+          loading.value = false;
+        });
+    };
+
+    check();
+    return () => clearTimeout(timer);
+  }, [asn.value]);
 
+  // Subscribe to pushed updates. EventSource retries dropped connections by
+  // itself; when it gives up, reconnect with a growing delay.
   useEffect(() => {
-    fetch("/api/check")
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let delay = 1000;
+
+    const connect = () => {
+      const current = data.value?.asn === asn.value ? data.value : null;
+      // Without a result yet, any stored one is news.
+      const since = `&since=${current ? current.generatedAt : 0}`;
+      source = new EventSource(`/api/events?asn=${asn.value}${since}`);
+      source.onopen = () => {
+        live.value = true;
+        delay = 1000;
+      };
+      source.addEventListener("result", (e) => {
+        const next: CheckData = JSON.parse((e as MessageEvent).data);
+        const previous = data.value;
+        if (previous && previous.asn === next.asn) {
+          highlights.value = changedKeys(previous, next);
+        }
+        data.value = next;
+        loading.value = false;
+        error.value = null;
+        pushedAt.value = Date.now();
+      });
+      source.addEventListener("sources", (e) => {
+        if (!data.value) return;
+        data.value = {
+          ...data.value,
+          sources: JSON.parse((e as MessageEvent).data),
+        };
+      });
+      source.addEventListener("changes", (e) => {
+        pushedChanges.value = JSON.parse((e as MessageEvent).data);
+      });
+      source.onerror = () => {
+        live.value = false;
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        timer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_DELAY);
+      };
+    };
+
+    highlights.value = new Set();
+    pushedChanges.value = null;
+    connect();
+    return () => {
+      clearTimeout(timer);
+      source?.close();
+      live.value = false;
+    };
+  }, [asn.value]);
+
+  // Fallback paths for whichever IXPs the grid shows.
+  const shownIxpIds = (regionIxps.value ?? data.value?.ixps ?? [])
+    .map((ixp) => ixp.id)
+    .join(",");
+
+  useEffect(() => {
+    fallbacks.value = new Map();
+    if (!shownIxpIds) return;
+    fetch(`/api/fallbacks?asn=${asn.value}&ids=${shownIxpIds}`)
       .then((r) => r.json())
       .then((resp) => {
-        if (resp.success) {
-          data.value = resp;
-        } else {
-          error.value = resp.error || "Check failed";
-        }
+        if (!resp.success) return;
+        fallbacks.value = new Map(
+          (resp.paths as FallbackPath[]).map((p) => [`${p.ixpId}:${p.asn}`, p]),
+        );
       })
       .catch(() => {
-        error.value = "Failed to fetch data";
-      })
-      .finally(() => {
-        loading.value = false;
+        // The grid is still right without them.
       });
-  }, []);
+  }, [asn.value, shownIxpIds]);
+
+  const selector = (
+    <AsnSelector
+      networks={networks}
+      asn={asn.value}
+      onSelect={(next) => (asn.value = next)}
+    />
+  );
 
   if (loading.value) {
     return (
-      <div class="bg-white rounded-lg shadow p-6">
-        <div class="flex items-center gap-3">
-          <div class="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
-          <span class="text-sm text-[#666]">
-            Fetching BGP table and PeeringDB data...
-          </span>
+      <div class="w-full">
+        {selector}
+        <div class="bg-white rounded-lg shadow p-6">
+          <div class="flex items-center gap-3">
+            <div class="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            <span class="text-sm text-[#666]">
+              Fetching BGP table and PeeringDB data...
+            </span>
+          </div>
         </div>
       </div>
     );
@@ -138,52 +422,136 @@ export default function NetworkMonitor() {
 
   if (error.value) {
     return (
-      <div class="bg-red-50 border border-red-200 rounded-lg p-4">
-        <p class="text-red-600 text-sm">{error.value}</p>
+      <div class="w-full">
+        {selector}
+        <div class="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p class="text-red-600 text-sm">{error.value}</p>
+        </div>
       </div>
     );
   }
 
   if (!data.value) return null;
 
-  const { ixps, bgp, cfIxpsGlobal, queryTime } = data.value;
+  const {
+    name,
+    ixps,
+    bgp,
+    ixpsGlobal,
+    cfIxpsGlobal,
+    queryTime,
+    ageMs,
+    stale,
+    sources,
+  } = data.value;
+  // Trends and routing changes are only recorded for the default AS.
+  const isDefault = data.value.asn === defaultAsn;
+
+  const highlight = (key: string) =>
+    highlights.value.has(key) ? " ring-2 ring-amber-300" : "";
 
   return (
     <div class="w-full">
+      {selector}
+
+      {/* What the last pushed update changed */}
+      {pushedAt.value !== null &&
+        (highlights.value.size > 0 || pushedChanges.value) && (
+        <div class="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 mb-4 flex items-start justify-between gap-4">
+          <div class="text-xs text-amber-900 space-y-1">
+            <div>
+              Updated {new Date(pushedAt.value).toLocaleTimeString()}
+              {highlights.value.size > 0 &&
+                ` · ${highlights.value.size} change(s) highlighted`}
+            </div>
+            {pushedChanges.value && (
+              <div>
+                {pushedChanges.value.count.toLocaleString()} prefix
+                change(s):{" "}
+                {pushedChanges.value.changes.slice(0, 5).map((c, i) => (
+                  <span key={c.prefix}>
+                    {i > 0 && ", "}
+                    <code>{c.prefix}</code> {c.kind}
+                  </span>
+                ))}
+                {pushedChanges.value.count > 5 && ", ..."}
+              </div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              highlights.value = new Set();
+              pushedChanges.value = null;
+              pushedAt.value = null;
+            }}
+            class="text-xs text-amber-800 hover:underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* IXP region, country or hand-picked exchanges */}
+      <IxpSelector
+        asn={data.value.asn}
+        onChange={(next: IxpResult[] | null) => (regionIxps.value = next)}
+      />
+
       {/* IXP Grid */}
       <div class="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
-        {ixps.map((ixp) => (
+        {(regionIxps.value ?? ixps).map((ixp) => (
           <div key={ixp.id} class="bg-white rounded-lg shadow p-5">
             <div class="mb-4">
               <span class="text-sm font-medium text-[#111] block">
                 {ixp.name}
               </span>
               <span class="text-xs text-[#999]">
-                {COUNTRY_FLAGS[ixp.country] ?? ""}{" "}
-                {COUNTRY_NAMES[ixp.country] ?? ixp.country}
+                {countryFlag(ixp.country)} {countryName(ixp.country)}
               </span>
             </div>
             <div class="space-y-1.5">
               {ixp.networks.map((net) => (
                 <div
                   key={net.asn}
-                  class="flex items-center justify-between text-xs"
+                  class={highlights.value.has(`ixp:${ixp.id}:${net.asn}`)
+                    ? "rounded bg-amber-50"
+                    : ""}
                 >
-                  <span class="text-[#666]">
-                    {net.name}{" "}
-                    <span class="text-[#bbb]">AS{net.asn}</span>
-                  </span>
-                  {net.present ? (
-                    <span class="inline-flex items-center gap-1 text-green-700">
-                      <span class="w-1.5 h-1.5 rounded-full bg-green-500" />
-                      Connected
-                    </span>
-                  ) : (
-                    <span class="inline-flex items-center gap-1 text-[#999]">
-                      <span class="w-1.5 h-1.5 rounded-full bg-[#ccc]" />
-                      Not present
+                  <div class="flex items-center justify-between text-xs">
+                    <span class="text-[#666]">
+                      {net.name}{" "}
+                      <span class="text-[#bbb]">AS{net.asn}</span>
                     </span>
-                  )}
+                    {net.dataStatus === "unknown" ? (
+                      <span
+                        class="inline-flex items-center gap-1 text-amber-700"
+                        title="PeeringDB data unavailable for this network"
+                      >
+                        <span class="w-1.5 h-1.5 rounded-full bg-amber-400" />
+                        Unknown
+                      </span>
+                    ) : net.present ? (
+                      <span class="inline-flex items-center gap-1 text-green-700">
+                        <span class="w-1.5 h-1.5 rounded-full bg-green-500" />
+                        Connected
+                        {net.dataStatus === "stale" && <StaleMark />}
+                      </span>
+                    ) : (
+                      <span class="inline-flex items-center gap-1 text-[#999]">
+                        <span class="w-1.5 h-1.5 rounded-full bg-[#ccc]" />
+                        Not present
+                        {net.dataStatus === "stale" && <StaleMark />}
+                      </span>
+                    )}
+                  </div>
+                  {net.present && <PortDetails net={net} />}
+                  {!net.present &&
+                    fallbacks.value.has(`${ixp.id}:${net.asn}`) && (
+                      <FallbackHint
+                        path={fallbacks.value.get(`${ixp.id}:${net.asn}`)!}
+                      />
+                    )}
                 </div>
               ))}
             </div>
@@ -191,6 +559,15 @@ export default function NetworkMonitor() {
         ))}
       </div>
 
+      {/* Network × IXP matrix and pairwise overlap */}
+      <OverlapPanel asn={data.value.asn} ixpIds={shownIxpIds} />
+
+      {/* Peering policy and PeeringDB metadata */}
+      <NetworkDetailsPanel asn={data.value.asn} />
+
+      {/* Shared facilities */}
+      <FacilitiesPanel />
+
       {/* Routing Note */}
       <div class="bg-amber-50 border border-amber-200 rounded-lg p-5 mb-6">
         <h3 class="text-xs font-medium text-amber-800 uppercase tracking-wider mb-2">
@@ -212,47 +589,87 @@ export default function NetworkMonitor() {
             BYOIP disruptions further degrade the already-fragile Free-tier
             paths.
           </p>
+          <p>
+            Under each absent network the IXP grid names the nearest exchange
+            where both networks are present, measured between the exchanges'
+            PeeringDB facilities: the likely fallback path.
+          </p>
         </div>
       </div>
 
       {/* BGP Stats */}
       <div class="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
-        <div class="bg-white rounded-lg shadow p-4 text-center">
+        <div class={`bg-white rounded-lg shadow p-4 text-center${highlight("total")}`}>
           <div class="text-2xl font-medium text-[#111]">
             {bgp.total.toLocaleString()}
           </div>
-          <div class="text-xs text-[#999]">AS13335 Prefixes</div>
+          <div class="text-xs text-[#999]">AS{data.value.asn} Prefixes</div>
         </div>
-        <div class="bg-white rounded-lg shadow p-4 text-center">
+        <div class={`bg-white rounded-lg shadow p-4 text-center${highlight("v4")}`}>
           <div class="text-2xl font-medium text-blue-600">
             {bgp.v4.toLocaleString()}
           </div>
           <div class="text-xs text-[#999]">IPv4</div>
         </div>
-        <div class="bg-white rounded-lg shadow p-4 text-center">
+        <div class={`bg-white rounded-lg shadow p-4 text-center${highlight("v6")}`}>
           <div class="text-2xl font-medium text-indigo-600">
             {bgp.v6.toLocaleString()}
           </div>
           <div class="text-xs text-[#999]">IPv6</div>
         </div>
-        <div class="bg-white rounded-lg shadow p-4 text-center">
+        <div class={`bg-white rounded-lg shadow p-4 text-center${highlight("avgVisibility")}`}>
           <div class="text-2xl font-medium text-green-600">
             {bgp.avgVisibility.toLocaleString()}
           </div>
           <div class="text-xs text-[#999]">Avg Visibility</div>
         </div>
-        <div class="bg-white rounded-lg shadow p-4 text-center">
+        <div class={`bg-white rounded-lg shadow p-4 text-center${highlight("ixpsGlobal")}`}>
           <div class="text-2xl font-medium text-blue-600">
-            {cfIxpsGlobal}
+            {ixpsGlobal}
           </div>
-          <div class="text-xs text-[#999]">CF IXPs Global</div>
+          <div class="text-xs text-[#999]">{name} IXPs Global</div>
         </div>
       </div>
 
+      {/* RPKI origin validation */}
+      {bgp.rpki && (
+        <div class="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
+            RPKI Origin Validation
+          </h3>
+          <div class="flex flex-wrap gap-6 text-center">
+            <div>
+              <div class="text-sm font-medium text-green-700">
+                {bgp.rpki.valid.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">Valid</div>
+            </div>
+            <div>
+              <div class="text-sm font-medium text-red-600">
+                {bgp.rpki.invalid.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">Invalid</div>
+            </div>
+            <div>
+              <div class="text-sm font-medium text-[#666]">
+                {bgp.rpki.notFound.toLocaleString()}
+              </div>
+              <div class="text-xs text-[#999]">Not found</div>
+            </div>
+          </div>
+          {bgp.rpki.invalid > 0 && (
+            <p class="text-xs text-red-600 mt-3">
+              RPKI-invalid prefixes are dropped by validating networks, which
+              shows up as low visibility.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Visibility distribution */}
       <div class="bg-white rounded-lg shadow p-6 mb-6">
         <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider mb-4">
-          Cloudflare BGP Prefix Visibility Distribution (AS13335)
+          {name} BGP Prefix Visibility Distribution (AS{data.value.asn})
         </h3>
         <div class="mb-3">
           <VisBar buckets={bgp.visibilityBuckets} />
@@ -284,85 +701,32 @@ export default function NetworkMonitor() {
         </div>
       </div>
 
-      {/* Low visibility prefixes */}
-      {bgp.lowVisibility.length > 0 && (
-        <div class="bg-white rounded-lg shadow overflow-hidden mb-6">
-          <div class="px-4 py-3 bg-[#fafafa] border-b border-[#eee]">
-            <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
-              Low Visibility Prefixes — {bgp.lowVisibility.length}{" "}
-              prefix(es) below threshold
-            </h3>
-          </div>
-          <div class="overflow-x-auto">
-            <table class="w-full text-sm">
-              <thead>
-                <tr class="border-b border-[#eee] bg-[#fafafa]">
-                  <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
-                    Prefix
-                  </th>
-                  <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
-                    Type
-                  </th>
-                  <th class="text-left px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
-                    Mask
-                  </th>
-                  <th class="text-right px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
-                    Visibility
-                  </th>
-                  <th class="text-right px-4 py-3 text-xs font-medium text-[#666] uppercase tracking-wider">
-                    vs Avg
-                  </th>
-                </tr>
-              </thead>
-              <tbody class="divide-y divide-[#eee]">
-                {bgp.lowVisibility.map((p, idx) => {
-                  const pctOfAvg =
-                    bgp.avgVisibility > 0
-                      ? Math.round(
-                          (p.visibility / bgp.avgVisibility) * 100,
-                        )
-                      : 0;
-                  return (
-                    <tr key={idx} class="hover:bg-[#fafafa]">
-                      <td class="px-4 py-3">
-                        <code class="text-[#111]">{p.prefix}</code>
-                      </td>
-                      <td class="px-4 py-3">
-                        <span
-                          class={`text-xs px-2 py-0.5 rounded ${
-                            p.type === "v4"
-                              ? "bg-blue-100 text-blue-700"
-                              : "bg-indigo-100 text-indigo-700"
-                          }`}
-                        >
-                          IPv{p.type === "v4" ? "4" : "6"}
-                        </span>
-                      </td>
-                      <td class="px-4 py-3 text-[#999]">/{p.mask}</td>
-                      <td class="px-4 py-3 text-right">
-                        <span
-                          class={`text-sm ${
-                            p.visibility < 500
-                              ? "text-red-600"
-                              : "text-orange-600"
-                          }`}
-                        >
-                          {p.visibility.toLocaleString()}
-                        </span>
-                      </td>
-                      <td class="px-4 py-3 text-right">
-                        <span class="text-xs text-[#999]">
-                          {pctOfAvg}%
-                        </span>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      )}
+      {/* Address space and aggregation */}
+      <AddressSpacePanel asn={data.value.asn} />
+
+      {/* Trends */}
+      {isDefault && <HistoryPanel />}
+
+      {/* Routing changes */}
+      {isDefault && <ChangesPanel />}
+
+      {/* AS paths, when the routing table comes from an MRT dump */}
+      <PathsPanel asn={data.value.asn} />
+
+      {/* All prefixes, searchable and sortable */}
+      <PrefixExplorer
+        asn={data.value.asn}
+        avgVisibility={bgp.avgVisibility}
+      />
+
+      {/* IRR route-object consistency */}
+      <IrrPanel asn={data.value.asn} />
+
+      {/* CSV / NDJSON / JSON downloads */}
+      <ExportPanel asn={data.value.asn} />
+
+      {/* Prefix lookup */}
+      <LookupBox />
 
       {/* Legend */}
       <div class="bg-white rounded-lg shadow p-6 mb-6">
@@ -370,13 +734,43 @@ export default function NetworkMonitor() {
           <h3 class="text-xs font-medium text-[#666] uppercase tracking-wider">
             About this data
           </h3>
-          <span class="text-xs text-[#999]">{queryTime}ms</span>
+          <span class="text-xs text-[#999]">
+            <span
+              class={live.value ? "text-green-600" : "text-[#ccc]"}
+              title={live.value ? "Receiving live updates" : "Reconnecting"}
+            >
+              ●
+            </span>{" "}
+            updated {formatAge(ageMs)}
+            {stale && " (refreshing)"} · {queryTime}ms
+          </span>
+        </div>
+        <div class="flex flex-wrap gap-x-6 gap-y-1 mb-3 text-xs">
+          {Object.entries(sources).map(([name, src]) => (
+            <span key={name} class="text-[#999]">
+              {SOURCE_LABELS[name] ?? name}:{" "}
+              {src?.ageMs != null ? formatAge(src.ageMs) : "never fetched"}
+              {!!src?.stats?.parseErrors && (
+                <span class="text-amber-600">
+                  {` · ${src.stats.parseErrors.toLocaleString()} malformed lines`}
+                </span>
+              )}
+              {src?.lastError &&
+                src.lastErrorAt !== null &&
+                (src.lastSuccess === null ||
+                  src.lastErrorAt > src.lastSuccess) && (
+                <span class="text-red-600" title={src.lastError}>
+                  {" · last refresh failed"}
+                </span>
+              )}
+            </span>
+          ))}
         </div>
         <div class="space-y-2 text-xs text-[#666]">
           <p>
             <span class="font-medium">BGP prefixes</span> are the actual IP
-            ranges that Cloudflare (AS13335) announces to the global routing
-            table, sourced from{" "}
+            ranges that {name} (AS{data.value.asn}) announces to the global
+            routing table, sourced from{" "}
             <a
               href="https://bgp.tools/kb/api"
               target="_blank"
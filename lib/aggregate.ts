@@ -0,0 +1,154 @@
+import type { BgpEntry } from "./bgp.ts";
+import {
+  comparePrefixes,
+  formatPrefix,
+  type IpFamily,
+  maskWords,
+  type ParsedPrefix,
+  parsePrefix,
+  prefixContains,
+} from "./ip.ts";
+
+export interface MoreSpecific {
+  prefix: string;
+  visibility: number;
+  // The least specific announcement covering it.
+  coveredBy: string;
+  coveringVisibility: number;
+}
+
+export interface MaskCount {
+  family: IpFamily;
+  length: number;
+  count: number;
+}
+
+export interface AddressSpace {
+  v4Addresses: number;
+  v6Slash48s: number;
+  maskHistogram: MaskCount[];
+  // Announcements already covered by a less specific one of the same AS.
+  moreSpecifics: MoreSpecific[];
+  // The fewest prefixes covering exactly the same address space.
+  aggregates: { v4: string[]; v6: string[] };
+}
+
+interface Announcement {
+  prefix: ParsedPrefix;
+  cidr: string;
+  visibility: number;
+}
+
+// Sibling prefixes (the two halves of one parent) merge into the parent.
+function parentIfSiblings(
+  a: ParsedPrefix,
+  b: ParsedPrefix,
+): ParsedPrefix | null {
+  if (a.length !== b.length || a.length === 0) return null;
+  const parent = maskWords(a.words, a.length - 1);
+  const other = maskWords(b.words, b.length - 1);
+  if (!parent.every((w, i) => w === other[i])) return null;
+  if (a.words.every((w, i) => w === b.words[i])) return null;
+  return { family: a.family, words: parent, length: a.length - 1 };
+}
+
+// Merge a sorted, non-overlapping list of prefixes bottom-up.
+function aggregate(tops: ParsedPrefix[]): string[] {
+  const stack: ParsedPrefix[] = [];
+  for (const prefix of tops) {
+    let current = prefix;
+    while (stack.length > 0) {
+      const parent = parentIfSiblings(stack[stack.length - 1], current);
+      if (!parent) break;
+      stack.pop();
+      current = parent;
+    }
+    stack.push(current);
+  }
+  return stack.map(formatPrefix);
+}
+
+function analyzeFamily(announcements: Announcement[], family: IpFamily) {
+  const sorted = announcements
+    .filter((a) => a.prefix.family === family)
+    .sort((a, b) => comparePrefixes(a.prefix, b.prefix));
+
+  // Walk in address order keeping the chain of prefixes that contain the
+  // current one; the bottom of the chain is its least specific cover.
+  const chain: Announcement[] = [];
+  const tops: ParsedPrefix[] = [];
+  const moreSpecifics: MoreSpecific[] = [];
+  for (const a of sorted) {
+    while (
+      chain.length > 0 &&
+      !prefixContains(chain[chain.length - 1].prefix, a.prefix)
+    ) {
+      chain.pop();
+    }
+    if (chain.length > 0) {
+      moreSpecifics.push({
+        prefix: a.cidr,
+        visibility: a.visibility,
+        coveredBy: chain[0].cidr,
+        coveringVisibility: chain[0].visibility,
+      });
+    } else {
+      tops.push(a.prefix);
+    }
+    chain.push(a);
+  }
+  return { tops, moreSpecifics };
+}
+
+// Address-space view of one AS's announcements. Duplicate announcements of
+// the same prefix count once, with the highest visibility.
+export function analyzeAddressSpace(entries: BgpEntry[]): AddressSpace {
+  const unique = new Map<string, Announcement>();
+  for (const e of entries) {
+    const prefix = parsePrefix(e.CIDR);
+    if (!prefix) continue;
+    const cidr = formatPrefix(prefix);
+    const existing = unique.get(cidr);
+    if (!existing || e.Hits > existing.visibility) {
+      unique.set(cidr, { prefix, cidr, visibility: e.Hits });
+    }
+  }
+  const announcements = [...unique.values()];
+
+  const histogram = new Map<string, MaskCount>();
+  for (const { prefix } of announcements) {
+    const key = `${prefix.family}/${prefix.length}`;
+    const bucket = histogram.get(key);
+    if (bucket) bucket.count++;
+    else {
+      histogram.set(key, {
+        family: prefix.family,
+        length: prefix.length,
+        count: 1,
+      });
+    }
+  }
+
+  const v4 = analyzeFamily(announcements, "v4");
+  const v6 = analyzeFamily(announcements, "v6");
+
+  const v4Addresses = v4.tops.reduce((n, p) => n + 2 ** (32 - p.length), 0);
+  // Prefixes longer than /48 count as the /48 they sit in.
+  let v6Slash48s = 0;
+  const partial48s = new Set<string>();
+  for (const p of v6.tops) {
+    if (p.length <= 48) v6Slash48s += 2 ** (48 - p.length);
+    else partial48s.add(maskWords(p.words, 48).join("."));
+  }
+  v6Slash48s += partial48s.size;
+
+  return {
+    v4Addresses,
+    v6Slash48s,
+    maskHistogram: [...histogram.values()].sort((a, b) =>
+      a.family.localeCompare(b.family) || a.length - b.length
+    ),
+    moreSpecifics: [...v4.moreSpecifics, ...v6.moreSpecifics],
+    aggregates: { v4: aggregate(v4.tops), v6: aggregate(v6.tops) },
+  };
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { analyzeAddressSpace } from "./aggregate.ts";
+import type { BgpEntry } from "./bgp.ts";
+
+const entry = (CIDR: string, Hits = 1000): BgpEntry => ({
+  CIDR,
+  ASN: 64496,
+  Hits,
+});
+
+Deno.test("analyzeAddressSpace merges siblings into aggregates", () => {
+  const space = analyzeAddressSpace([
+    entry("10.0.0.0/24"),
+    entry("10.0.1.0/24"),
+    entry("10.0.2.0/24"),
+    entry("10.0.3.0/24"),
+    // Not the sibling of 10.0.4.0/24's neighbour: stays on its own.
+    entry("10.0.5.0/24"),
+    entry("2001:db8::/33"),
+    entry("2001:db8:8000::/33"),
+  ]);
+  assert.deepEqual(space.aggregates, {
+    v4: ["10.0.0.0/22", "10.0.5.0/24"],
+    v6: ["2001:db8::/32"],
+  });
+  assert.equal(space.v4Addresses, 5 * 256);
+  assert.equal(space.v6Slash48s, 2 ** 16);
+  assert.deepEqual(space.moreSpecifics, []);
+});
+
+Deno.test("analyzeAddressSpace finds more-specifics and their widest cover", () => {
+  const space = analyzeAddressSpace([
+    entry("104.16.0.0/13", 2800),
+    entry("104.16.0.0/20", 2500),
+    entry("104.16.0.0/24", 900),
+    entry("104.28.0.0/16", 2000),
+    entry("2606:4700::/32", 2900),
+    entry("2606:4700:10::/44", 2100),
+  ]);
+  assert.deepEqual(space.moreSpecifics, [
+    {
+      prefix: "104.16.0.0/20",
+      visibility: 2500,
+      coveredBy: "104.16.0.0/13",
+      coveringVisibility: 2800,
+    },
+    {
+      prefix: "104.16.0.0/24",
+      visibility: 900,
+      coveredBy: "104.16.0.0/13",
+      coveringVisibility: 2800,
+    },
+    {
+      prefix: "2606:4700:10::/44",
+      visibility: 2100,
+      coveredBy: "2606:4700::/32",
+      coveringVisibility: 2900,
+    },
+  ]);
+  // Covered space counts once.
+  assert.equal(space.v4Addresses, 2 ** 19 + 2 ** 16);
+  assert.deepEqual(space.aggregates.v4, ["104.16.0.0/13", "104.28.0.0/16"]);
+});
+
+Deno.test("analyzeAddressSpace normalizes and deduplicates announcements", () => {
+  const space = analyzeAddressSpace([
+    entry("2606:4700:0:0::/32", 100),
+    entry("2606:4700::/32", 2900),
+    entry("2001:db8:1:2::/64"),
+    entry("2001:db8:1:3::/64"),
+    entry("not a prefix"),
+  ]);
+  assert.deepEqual(space.maskHistogram, [
+    { family: "v6", length: 32, count: 1 },
+    { family: "v6", length: 64, count: 2 },
+  ]);
+  // Both /64s sit in one /48.
+  assert.equal(space.v6Slash48s, 2 ** 16 + 1);
+  assert.deepEqual(space.aggregates.v6, [
+    "2001:db8:1:2::/63",
+    "2606:4700::/32",
+  ]);
+});
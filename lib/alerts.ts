@@ -0,0 +1,487 @@
+import { kv } from "./kv.ts";
+import { USER_AGENT } from "./config.ts";
+import { lowVisibilityThreshold } from "./check.ts";
+import type { CfPrefixInfo, CheckResult } from "./types.ts";
+
+export type AlertRuleType =
+  | "avgVisibilityBelow"
+  | "prefixLowVisibility"
+  | "ixpPresenceChanged"
+  | "cfIxpsGlobalBelow";
+
+export interface AlertWebhook {
+  url: string;
+  format: "json" | "slack";
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  // avgVisibilityBelow / cfIxpsGlobalBelow: fire below this value.
+  // prefixLowVisibility: optional, only prefixes below this many peers.
+  threshold?: number;
+  // prefixLowVisibility: optional, only this exact prefix.
+  prefix?: string;
+  // ixpPresenceChanged: optional filters, every IXP / network otherwise.
+  ixpId?: number;
+  asn?: number;
+  webhooks: AlertWebhook[];
+  cooldownMinutes: number;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type AlertStatus = "firing" | "resolved";
+
+export interface AlertEvent {
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  key: string;
+  status: AlertStatus;
+  message: string;
+  // False when the notification was suppressed by the cooldown.
+  notified: boolean;
+  deliveryErrors: string[];
+}
+
+interface AlertState {
+  message: string;
+  // Sent when the condition resolves, `Resolved: <message>` if unset.
+  resolvedMessage?: string;
+  firingSince: number;
+}
+
+// A condition currently matched by a rule. `key` identifies it across
+// evaluations, e.g. a prefix or an "ixpId:asn:left" change.
+interface ActiveCondition {
+  key: string;
+  message: string;
+  resolvedMessage?: string;
+}
+
+const RULE_TYPES: AlertRuleType[] = [
+  "avgVisibilityBelow",
+  "prefixLowVisibility",
+  "ixpPresenceChanged",
+  "cfIxpsGlobalBelow",
+];
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const HISTORY_RETENTION = 30 * 86400_000; // 30 days
+const WEBHOOK_TIMEOUT = 10_000;
+// Conditions listed in a chat notification; the JSON payload has them all.
+const MAX_LISTED_CONDITIONS = 20;
+// Deno KV allows 1000 mutations per atomic operation.
+const DELETE_BATCH_SIZE = 500;
+
+// --- Rule storage ---
+
+export async function listRules(): Promise<AlertRule[]> {
+  const rules: AlertRule[] = [];
+  for await (
+    const entry of kv.list<AlertRule>({ prefix: ["alerts", "rule"] })
+  ) {
+    rules.push(entry.value);
+  }
+  return rules;
+}
+
+export async function saveRule(rule: AlertRule): Promise<void> {
+  await kv.set(["alerts", "rule", rule.id], rule);
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  const existing = await kv.get(["alerts", "rule", id]);
+  if (!existing.value) return false;
+
+  // A rule can have more state entries than one atomic operation may
+  // delete, so they go in batches; the rule itself goes last, so a failure
+  // halfway leaves it in place to be deleted again.
+  for (const prefix of [["alerts", "state", id], ["alerts", "notified", id]]) {
+    let batch: Deno.KvKey[] = [];
+    for await (const entry of kv.list({ prefix })) {
+      batch.push(entry.key);
+      if (batch.length === DELETE_BATCH_SIZE) {
+        await deleteKeys(batch);
+        batch = [];
+      }
+    }
+    await deleteKeys(batch);
+  }
+  await kv.atomic()
+    .delete(["alerts", "baseline", id])
+    .delete(["alerts", "rule", id])
+    .commit();
+  return true;
+}
+
+async function deleteKeys(keys: Deno.KvKey[]): Promise<void> {
+  if (keys.length === 0) return;
+  const op = kv.atomic();
+  for (const key of keys) op.delete(key);
+  await op.commit();
+}
+
+// Validate an untrusted request body into a rule. Returns an error message
+// when the body is not acceptable.
+export function parseRule(body: unknown): AlertRule | string {
+  if (typeof body !== "object" || body === null) {
+    return "Body must be an object";
+  }
+  const b = body as Record<string, unknown>;
+
+  if (typeof b.name !== "string" || !b.name.trim()) return "name is required";
+  if (!RULE_TYPES.includes(b.type as AlertRuleType)) {
+    return `type must be one of ${RULE_TYPES.join(", ")}`;
+  }
+  const type = b.type as AlertRuleType;
+
+  if (b.threshold !== undefined && typeof b.threshold !== "number") {
+    return "threshold must be a number";
+  }
+  if (
+    (type === "avgVisibilityBelow" || type === "cfIxpsGlobalBelow") &&
+    b.threshold === undefined
+  ) {
+    return `threshold is required for ${type}`;
+  }
+  if (b.prefix !== undefined && typeof b.prefix !== "string") {
+    return "prefix must be a string";
+  }
+  for (const field of ["ixpId", "asn"] as const) {
+    if (b[field] !== undefined && !Number.isInteger(b[field])) {
+      return `${field} must be an integer`;
+    }
+  }
+  if (
+    b.cooldownMinutes !== undefined &&
+    (typeof b.cooldownMinutes !== "number" || b.cooldownMinutes < 0)
+  ) {
+    return "cooldownMinutes must be a non-negative number";
+  }
+
+  const webhooks: AlertWebhook[] = [];
+  if (!Array.isArray(b.webhooks)) return "webhooks must be an array";
+  for (const w of b.webhooks) {
+    if (typeof w?.url !== "string" || !URL.canParse(w.url)) {
+      return "every webhook needs a valid url";
+    }
+    const format = w.format ?? "json";
+    if (format !== "json" && format !== "slack") {
+      return 'webhook format must be "json" or "slack"';
+    }
+    webhooks.push({ url: w.url, format });
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: b.name.trim(),
+    type,
+    threshold: b.threshold as number | undefined,
+    prefix: b.prefix as string | undefined,
+    ixpId: b.ixpId as number | undefined,
+    asn: b.asn as number | undefined,
+    webhooks,
+    cooldownMinutes: (b.cooldownMinutes as number | undefined) ??
+      DEFAULT_COOLDOWN_MINUTES,
+    enabled: b.enabled !== false,
+    createdAt: Date.now(),
+  };
+}
+
+// --- Evaluation ---
+
+async function activeConditions(
+  rule: AlertRule,
+  result: CheckResult,
+  prefixes: CfPrefixInfo[],
+): Promise<ActiveCondition[]> {
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.type) {
+    case "avgVisibilityBelow":
+      return result.bgp.avgVisibility < threshold
+        ? [{
+          key: "avg",
+          message:
+            `Average visibility ${result.bgp.avgVisibility} is below ${threshold}`,
+        }]
+        : [];
+
+    case "cfIxpsGlobalBelow":
+      return result.cfIxpsGlobal < threshold
+        ? [{
+          key: "cfIxpsGlobal",
+          message:
+            `Cloudflare is present at ${result.cfIxpsGlobal} IXPs, below ${threshold}`,
+        }]
+        : [];
+
+    case "prefixLowVisibility": {
+      // The full list: the result's lowVisibility is capped, and a prefix
+      // dropping out of it would look resolved.
+      const low = lowVisibilityThreshold(result.bgp.avgVisibility);
+      return prefixes
+        .filter((p) =>
+          p.visibility < low &&
+          (!rule.prefix || p.prefix === rule.prefix) &&
+          (rule.threshold === undefined || p.visibility < rule.threshold)
+        )
+        .map((p) => ({
+          key: p.prefix,
+          message:
+            `${p.prefix} is seen by only ${p.visibility} peers (avg ${result.bgp.avgVisibility})`,
+        }));
+    }
+
+    case "ixpPresenceChanged": {
+      // Presence is compared against the previous evaluation's. A change
+      // fires once and becomes the baseline, so it resolves on the next
+      // evaluation and a later change back is a change of its own. The
+      // direction is part of the key: a leave right after a join must not
+      // be deduplicated into the join.
+      const current: Record<string, boolean> = {};
+      const labels: Record<string, string> = {};
+      for (const ixp of result.ixps) {
+        if (rule.ixpId !== undefined && ixp.id !== rule.ixpId) continue;
+        for (const net of ixp.networks) {
+          if (rule.asn !== undefined && net.asn !== rule.asn) continue;
+          // Missing PeeringDB data is not a departure.
+          if (net.dataStatus === "unknown") continue;
+          const key = `${ixp.id}:${net.asn}`;
+          current[key] = net.present;
+          labels[key] = `${net.name} (AS${net.asn}) at ${ixp.name}`;
+        }
+      }
+
+      const baselineKey = ["alerts", "baseline", rule.id];
+      const stored = await kv.get<Record<string, boolean>>(baselineKey);
+      const baseline = { ...current, ...stored.value };
+      // Networks without data this time keep their last known presence.
+      await kv.set(baselineKey, { ...stored.value, ...current });
+
+      return Object.entries(current)
+        .filter(([key, present]) => present !== baseline[key])
+        .map(([key, present]) => ({
+          key: `${key}:${present ? "joined" : "left"}`,
+          message: `${labels[key]} is ${
+            present ? "now present" : "no longer present"
+          }`,
+          resolvedMessage: `${labels[key]} being ${
+            present ? "present" : "absent"
+          } is the new baseline`,
+        }));
+    }
+  }
+}
+
+// One webhook notification: every condition of a rule that fired, or every
+// one that resolved, in the same evaluation.
+interface AlertNotification {
+  status: AlertStatus;
+  events: AlertEvent[];
+  timestamp: number;
+}
+
+function notificationSummary({ status, events }: AlertNotification): string {
+  return events.length === 1
+    ? events[0].message
+    : `${events.length} conditions ${status}`;
+}
+
+function webhookPayload(
+  webhook: AlertWebhook,
+  rule: AlertRule,
+  notification: AlertNotification,
+): unknown {
+  const { status, events } = notification;
+  const summary = notificationSummary(notification);
+  if (webhook.format === "slack") {
+    const icon = status === "firing" ? ":red_circle:" : ":large_green_circle:";
+    const lines = [
+      `${icon} [${status.toUpperCase()}] ${rule.name}: ${summary}`,
+    ];
+    if (events.length > 1) {
+      lines.push(
+        ...events.slice(0, MAX_LISTED_CONDITIONS).map((e) => `• ${e.message}`),
+      );
+      if (events.length > MAX_LISTED_CONDITIONS) {
+        lines.push(`… and ${events.length - MAX_LISTED_CONDITIONS} more`);
+      }
+    }
+    return { text: lines.join("\n") };
+  }
+  return {
+    status,
+    rule: { id: rule.id, name: rule.name, type: rule.type },
+    message: summary,
+    conditions: events.map((e) => ({ key: e.key, message: e.message })),
+    timestamp: new Date(notification.timestamp).toISOString(),
+  };
+}
+
+async function deliver(
+  rule: AlertRule,
+  notification: AlertNotification,
+): Promise<string[]> {
+  const errors: string[] = [];
+  await Promise.all(rule.webhooks.map(async (webhook) => {
+    try {
+      const resp = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": USER_AGENT,
+        },
+        body: JSON.stringify(webhookPayload(webhook, rule, notification)),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      });
+      if (!resp.ok) {
+        errors.push(`${new URL(webhook.url).host} returned ${resp.status}`);
+      }
+      await resp.body?.cancel();
+    } catch (err) {
+      errors.push(
+        `${new URL(webhook.url).host}: ${
+          err instanceof Error ? err.message : "delivery failed"
+        }`,
+      );
+    }
+  }));
+  return errors;
+}
+
+async function alertEvent(
+  rule: AlertRule,
+  key: string,
+  status: AlertStatus,
+  message: string,
+  now: number,
+): Promise<AlertEvent> {
+  // Cooldown is tracked per rule and condition, across firing and resolved
+  // notifications, so a flapping condition doesn't spam the webhooks.
+  const lastNotified = await kv.get<number>(
+    ["alerts", "notified", rule.id, key],
+  );
+  const suppressed = status === "firing" && lastNotified.value !== null &&
+    now - lastNotified.value < rule.cooldownMinutes * 60_000;
+  return {
+    timestamp: now,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    key,
+    status,
+    message,
+    notified: !suppressed,
+    deliveryErrors: [],
+  };
+}
+
+// Deliver the events of one rule and status that are not in their cooldown
+// as a single notification, then record them all in the history.
+async function notify(
+  rule: AlertRule,
+  status: AlertStatus,
+  events: AlertEvent[],
+  now: number,
+): Promise<void> {
+  const due = events.filter((e) => e.notified);
+  if (due.length > 0) {
+    const errors = await deliver(rule, { status, events: due, timestamp: now });
+    const cooldown = Math.max(rule.cooldownMinutes * 60_000, 1);
+    for (const event of due) {
+      event.deliveryErrors = errors;
+      await kv.set(["alerts", "notified", rule.id, event.key], now, {
+        expireIn: cooldown,
+      });
+    }
+  }
+  for (const event of events) {
+    await kv.set(["alerts", "history", now, rule.id, event.key], event, {
+      expireIn: HISTORY_RETENTION,
+    });
+  }
+}
+
+// Evaluate every enabled rule against a fresh CheckResult and all of its
+// prefixes, firing alerts for newly matched conditions and resolving ones
+// that no longer match. Each rule sends at most one firing and one resolved
+// notification per evaluation, however many conditions changed.
+export async function evaluateAlerts(
+  result: CheckResult,
+  prefixes: CfPrefixInfo[],
+  now = Date.now(),
+): Promise<AlertEvent[]> {
+  const events: AlertEvent[] = [];
+
+  for (const rule of await listRules()) {
+    if (!rule.enabled) continue;
+
+    const active = await activeConditions(rule, result, prefixes);
+    const activeKeys = new Set(active.map((c) => c.key));
+
+    const fired: AlertEvent[] = [];
+    for (const condition of active) {
+      const stateKey = ["alerts", "state", rule.id, condition.key];
+      const state = await kv.get<AlertState>(stateKey);
+      if (state.value) continue; // already firing, deduplicated
+
+      await kv.set(
+        stateKey,
+        {
+          message: condition.message,
+          resolvedMessage: condition.resolvedMessage,
+          firingSince: now,
+        } satisfies AlertState,
+      );
+      fired.push(
+        await alertEvent(rule, condition.key, "firing", condition.message, now),
+      );
+    }
+
+    const resolved: AlertEvent[] = [];
+    const firing = kv.list<AlertState>({
+      prefix: ["alerts", "state", rule.id],
+    });
+    for await (const entry of firing) {
+      const key = entry.key[3] as string;
+      if (activeKeys.has(key)) continue;
+      await kv.delete(entry.key);
+      resolved.push(
+        await alertEvent(
+          rule,
+          key,
+          "resolved",
+          entry.value.resolvedMessage ?? `Resolved: ${entry.value.message}`,
+          now,
+        ),
+      );
+    }
+
+    await notify(rule, "firing", fired, now);
+    await notify(rule, "resolved", resolved, now);
+    events.push(...fired, ...resolved);
+  }
+
+  return events;
+}
+
+export async function listAlertEvents(
+  since: number,
+  limit: number,
+): Promise<AlertEvent[]> {
+  const events: AlertEvent[] = [];
+  const iter = kv.list<AlertEvent>(
+    {
+      start: ["alerts", "history", since],
+      end: ["alerts", "history", Number.MAX_SAFE_INTEGER],
+    },
+    { reverse: true, limit },
+  );
+  for await (const entry of iter) {
+    events.push(entry.value);
+  }
+  return events;
+}
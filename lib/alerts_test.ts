@@ -0,0 +1,244 @@
+import assert from "node:assert/strict";
+import { deleteRule, evaluateAlerts, parseRule, saveRule } from "./alerts.ts";
+import { kv } from "./kv.ts";
+import type { CfPrefixInfo, CheckResult } from "./types.ts";
+
+function prefix(i: number, visibility: number): CfPrefixInfo {
+  return {
+    prefix: `10.${i}.0.0/16`,
+    type: "v4",
+    visibility,
+    mask: 16,
+    rpki: null,
+    coveredBy: null,
+  };
+}
+
+function checkResult(prefixes: CfPrefixInfo[]): CheckResult {
+  const low = prefixes.filter((p) => p.visibility < 1000);
+  return {
+    asn: 13335,
+    name: "Cloudflare",
+    ixps: [],
+    bgp: {
+      total: prefixes.length,
+      v4: prefixes.length,
+      v6: 0,
+      avgVisibility: 1500,
+      minVisibility: 0,
+      maxVisibility: 3000,
+      lowVisibility: low.slice(0, 50),
+      lowVisibilityCount: low.length,
+      visibilityBuckets: [],
+      rpki: null,
+      addressSpace: {
+        v4Addresses: 0,
+        v6Slash48s: 0,
+        moreSpecifics: 0,
+        aggregates: 0,
+      },
+    },
+    ixpsGlobal: 300,
+    cfIxpsGlobal: 300,
+  };
+}
+
+Deno.test("parseRule validates required fields", () => {
+  assert.equal(parseRule(null), "Body must be an object");
+  assert.equal(
+    parseRule({ name: "x", type: "nope", webhooks: [] }),
+    "type must be one of avgVisibilityBelow, prefixLowVisibility, ixpPresenceChanged, cfIxpsGlobalBelow",
+  );
+  assert.equal(
+    parseRule({ name: "x", type: "avgVisibilityBelow", webhooks: [] }),
+    "threshold is required for avgVisibilityBelow",
+  );
+  assert.equal(
+    parseRule({
+      name: "x",
+      type: "prefixLowVisibility",
+      webhooks: [{ url: "not a url" }],
+    }),
+    "every webhook needs a valid url",
+  );
+
+  const rule = parseRule({
+    name: " Low ",
+    type: "prefixLowVisibility",
+    webhooks: [{ url: "https://example.com/hook", format: "slack" }],
+  });
+  assert.ok(typeof rule !== "string");
+  assert.equal(rule.name, "Low");
+  assert.equal(rule.cooldownMinutes, 60);
+  assert.deepEqual(rule.webhooks, [
+    { url: "https://example.com/hook", format: "slack" },
+  ]);
+});
+
+Deno.test("prefixLowVisibility follows every low prefix, not the capped list", async () => {
+  const rule = parseRule({
+    name: "low prefixes",
+    type: "prefixLowVisibility",
+    webhooks: [],
+  });
+  assert.ok(typeof rule !== "string");
+  await saveRule(rule);
+  try {
+    // 60 low prefixes: more than the result lists.
+    const prefixes = Array.from({ length: 60 }, (_, i) => prefix(i, 100 + i));
+    const first = await evaluateAlerts(checkResult(prefixes), prefixes, 1000);
+    assert.equal(first.filter((e) => e.status === "firing").length, 60);
+
+    // Others getting worse push the least bad ones out of the result's list;
+    // they are still low and must not resolve.
+    const worse = prefixes.map((p, i) => i < 10 ? p : { ...p, visibility: 5 });
+    const second = await evaluateAlerts(checkResult(worse), worse, 2000);
+    assert.deepEqual(second, []);
+
+    const recovered = prefixes.map((p) => ({ ...p, visibility: 2000 }));
+    const third = await evaluateAlerts(
+      checkResult(recovered),
+      recovered,
+      3000,
+    );
+    assert.equal(third.filter((e) => e.status === "resolved").length, 60);
+  } finally {
+    await deleteRule(rule.id);
+  }
+});
+
+Deno.test("deleteRule removes more state than one atomic operation can", async () => {
+  const rule = parseRule({
+    name: "many prefixes",
+    type: "prefixLowVisibility",
+    webhooks: [],
+  });
+  assert.ok(typeof rule !== "string");
+  await saveRule(rule);
+  const state = { message: "low", firingSince: 0 };
+  for (let i = 0; i < 1200; i += 400) {
+    const op = kv.atomic();
+    for (let j = i; j < i + 400; j++) {
+      op.set(
+        ["alerts", "state", rule.id, `10.${j >> 8}.${j & 255}.0/24`],
+        state,
+      );
+    }
+    await op.commit();
+  }
+
+  assert.equal(await deleteRule(rule.id), true);
+  assert.equal((await kv.get(["alerts", "rule", rule.id])).value, null);
+  const left = await Array.fromAsync(
+    kv.list({ prefix: ["alerts", "state", rule.id] }),
+  );
+  assert.equal(left.length, 0);
+  assert.equal(await deleteRule(rule.id), false);
+});
+
+Deno.test("a rule sends one notification per evaluation and status", async () => {
+  const rule = parseRule({
+    name: "low prefixes",
+    type: "prefixLowVisibility",
+    webhooks: [
+      { url: "https://hooks.example.com/json" },
+      { url: "https://hooks.example.com/slack", format: "slack" },
+    ],
+  });
+  assert.ok(typeof rule !== "string");
+  await saveRule(rule);
+
+  const original = globalThis.fetch;
+  const bodies = new Map<string, unknown[]>();
+  globalThis.fetch = (input, init) => {
+    const url = String(input);
+    bodies.set(url, [...bodies.get(url) ?? [], JSON.parse(String(init?.body))]);
+    return Promise.resolve(new Response(null, { status: 204 }));
+  };
+  try {
+    const prefixes = Array.from({ length: 30 }, (_, i) => prefix(i, 100));
+    const events = await evaluateAlerts(checkResult(prefixes), prefixes, 1000);
+    assert.equal(events.length, 30);
+    assert.ok(events.every((e) => e.notified && e.deliveryErrors.length === 0));
+
+    const json = bodies.get("https://hooks.example.com/json")!;
+    assert.equal(json.length, 1);
+    const payload = json[0] as { message: string; conditions: unknown[] };
+    assert.equal(payload.message, "30 conditions firing");
+    assert.equal(payload.conditions.length, 30);
+    const slack = bodies.get("https://hooks.example.com/slack")!;
+    assert.equal(slack.length, 1);
+    const lines = (slack[0] as { text: string }).text.split("\n");
+    // The summary, 20 prefixes and how many more.
+    assert.equal(lines.length, 22);
+    assert.equal(lines[21], "… and 10 more");
+
+    bodies.clear();
+    const recovered = prefixes.map((p) => ({ ...p, visibility: 2000 }));
+    await evaluateAlerts(checkResult(recovered), recovered, 2000);
+    assert.equal(bodies.get("https://hooks.example.com/json")!.length, 1);
+  } finally {
+    globalThis.fetch = original;
+    await deleteRule(rule.id);
+  }
+});
+
+Deno.test("ixpPresenceChanged reports a leave and a later re-join", async () => {
+  const rule = parseRule({
+    name: "presence",
+    type: "ixpPresenceChanged",
+    asn: 15169,
+    webhooks: [],
+    cooldownMinutes: 0,
+  });
+  assert.ok(typeof rule !== "string");
+  await saveRule(rule);
+  const withPresence = (present: boolean): CheckResult => ({
+    ...checkResult([]),
+    ixps: [{
+      id: 26,
+      name: "AMS-IX",
+      country: "NL",
+      networks: [{
+        asn: 15169,
+        name: "Google",
+        present,
+        dataStatus: "fresh",
+        ports: [],
+        totalSpeed: 0,
+        rsPeer: false,
+      }],
+    }],
+  });
+  const evaluate = async (present: boolean, now: number) =>
+    (await evaluateAlerts(withPresence(present), [], now)).map((e) => ({
+      status: e.status,
+      message: e.message,
+    }));
+
+  try {
+    // The first evaluation only records the baseline.
+    assert.deepEqual(await evaluate(true, 1000), []);
+    assert.deepEqual(await evaluate(false, 2000), [{
+      status: "firing",
+      message: "Google (AS15169) at AMS-IX is no longer present",
+    }]);
+    // The departure is the new baseline, not a condition that never ends.
+    assert.deepEqual(await evaluate(false, 3000), [{
+      status: "resolved",
+      message: "Google (AS15169) at AMS-IX being absent is the new baseline",
+    }]);
+    assert.deepEqual(await evaluate(false, 4000), []);
+    assert.deepEqual(await evaluate(true, 5000), [{
+      status: "firing",
+      message: "Google (AS15169) at AMS-IX is now present",
+    }]);
+    // Leaving again straight away is a change of its own.
+    assert.deepEqual(
+      (await evaluate(false, 6000)).map((e) => e.status).sort(),
+      ["firing", "resolved"],
+    );
+  } finally {
+    await deleteRule(rule.id);
+  }
+});
@@ -0,0 +1,20 @@
+import { ADMIN_TOKEN } from "./config.ts";
+
+// Returns an error response when the request doesn't carry the admin token,
+// or null when the caller may proceed.
+export function requireAdmin(req: Request): Response | null {
+  if (!ADMIN_TOKEN) {
+    return Response.json(
+      { success: false, error: "ADMIN_TOKEN is not configured" },
+      { status: 503 },
+    );
+  }
+  const header = req.headers.get("Authorization") ?? "";
+  if (header !== `Bearer ${ADMIN_TOKEN}`) {
+    return Response.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+  return null;
+}
@@ -0,0 +1,179 @@
+import { CLOUDFLARE_AS } from "./config.ts";
+import { getLatestResult, type StoredResult } from "./refresh.ts";
+import type { CheckResult, NetworkPresence } from "./types.ts";
+import { isWatched } from "./watch.ts";
+
+// shields.io's palette, so the badges sit well next to theirs.
+export const BADGE_COLORS = {
+  green: "#4c1",
+  yellow: "#dfb317",
+  red: "#e05d44",
+  blue: "#007ec6",
+  grey: "#9f9f9f",
+} as const;
+
+export interface Badge {
+  label: string;
+  message: string;
+  color: keyof typeof BADGE_COLORS;
+}
+
+// Badges are fetched by wikis and image proxies; results change at most
+// every refresh, so a few minutes of caching is harmless.
+const BADGE_MAX_AGE = 300;
+const MAX_LABEL_LENGTH = 64;
+
+// --- Content ---
+
+// Result for a badge or the embed page. Only reads what is stored: these are
+// fetched anonymously and by image proxies, so they never start a refresh or
+// add a watch. "pending" until the first refresh of a monitored AS is done.
+export async function currentResult(
+  asn: number,
+): Promise<StoredResult | "pending" | "not monitored"> {
+  if (!await isWatched(asn)) return "not monitored";
+  return await getLatestResult(asn) ?? "pending";
+}
+
+export function pendingBadge(label: string): Badge {
+  return { label, message: "pending", color: "grey" };
+}
+
+export function notMonitoredBadge(label: string): Badge {
+  return { label, message: "not monitored", color: "grey" };
+}
+
+// For an IXP that no stored result compares `asn` at.
+export function notTrackedBadge(label: string): Badge {
+  return { label, message: "not tracked", color: "grey" };
+}
+
+export function errorBadge(label: string, message: string): Badge {
+  return { label, message, color: "red" };
+}
+
+export function formatSpeed(mbps: number): string {
+  return mbps >= 1000 ? `${Math.round(mbps / 1000)}G` : `${mbps}M`;
+}
+
+// Average collector visibility, yellow or red once prefixes fall below the
+// low-visibility threshold of the check.
+export function visibilityBadge(result: CheckResult): Badge {
+  const { total, avgVisibility, lowVisibilityCount: low } = result.bgp;
+  const label = `AS${result.asn} visibility`;
+  if (total === 0) return { label, message: "no prefixes", color: "grey" };
+  return {
+    label,
+    message: `avg ${avgVisibility.toLocaleString("en")}` +
+      (low > 0 ? ` · ${low} low` : ""),
+    color: low === 0 ? "green" : low / total < 0.05 ? "yellow" : "red",
+  };
+}
+
+export function presenceBadge(ixpName: string, net: NetworkPresence): Badge {
+  const label = `${net.name} @ ${ixpName}`;
+  if (net.dataStatus === "unknown") {
+    return { label, message: "unknown", color: "grey" };
+  }
+  if (!net.present) return { label, message: "not present", color: "red" };
+  return {
+    label,
+    message: net.totalSpeed > 0
+      ? `present · ${formatSpeed(net.totalSpeed)}`
+      : "present",
+    color: net.dataStatus === "stale" ? "yellow" : "green",
+  };
+}
+
+// How many of the result's IXPs `asn` is at. Null when the result does not
+// compare that network.
+export function networkBadge(
+  result: CheckResult,
+  asn: number,
+): Badge | null {
+  const rows = result.ixps.flatMap((ixp) =>
+    ixp.networks.filter((n) => n.asn === asn)
+  );
+  if (rows.length === 0) return null;
+  const label = rows[0].name;
+  if (rows.some((n) => n.dataStatus === "unknown")) {
+    return { label, message: "unknown", color: "grey" };
+  }
+  const present = rows.filter((n) => n.present).length;
+  return {
+    label,
+    message: `${present}/${rows.length} IXPs`,
+    color: present === 0 ? "red" : "blue",
+  };
+}
+
+// Network badges use Cloudflare's result when it compares `asn`, that of
+// `asn` itself otherwise.
+export async function networkBadgeFor(asn: number): Promise<Badge> {
+  const cf = await getLatestResult(CLOUDFLARE_AS);
+  const fromCf = cf && networkBadge(cf.result, asn);
+  if (fromCf) return fromCf;
+  const own = await currentResult(asn);
+  if (own === "not monitored") return notMonitoredBadge(`AS${asn}`);
+  return (own !== "pending" && networkBadge(own.result, asn)) ||
+    pendingBadge(`AS${asn}`);
+}
+
+// --- Rendering ---
+
+// Approximate Verdana 11px advance widths; exact metrics would need the
+// font, and a pixel or two of slack is invisible in a badge.
+export function textWidth(text: string): number {
+  let width = 0;
+  for (const c of text) {
+    if (/[iljtfI.,:;|!'()[\] ]/.test(c)) width += 4;
+    else if (/[mwMW@]/.test(c)) width += 10;
+    else if (/[A-Z0-9#%&·×]/.test(c)) width += 7.5;
+    else width += 6.5;
+  }
+  return Math.round(width);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// A flat shields.io-style badge: grey label, colored message.
+export function renderBadge({ label, message, color }: Badge): string {
+  const labelWidth = textWidth(label) + 10;
+  const messageWidth = textWidth(message) + 10;
+  const width = labelWidth + messageWidth;
+  const title = escapeXml(`${label}: ${message}`);
+  const text = (value: string, x: number) =>
+    `<text x="${x}" y="15" fill="#010101" fill-opacity=".3">${
+      escapeXml(value)
+    }</text><text x="${x}" y="14">${escapeXml(value)}</text>`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    `<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>` +
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>` +
+    `<g clip-path="url(#r)"><rect width="${labelWidth}" height="20" fill="#555"/>` +
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${
+      BADGE_COLORS[color]
+    }"/><rect width="${width}" height="20" fill="url(#s)"/></g>` +
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">` +
+    text(label, labelWidth / 2) +
+    text(message, labelWidth + messageWidth / 2) +
+    `</g></svg>`;
+}
+
+// SVG response for `badge`. A `label` query parameter replaces the label,
+// e.g. to shorten it on a status page. Errors are badges too, so an embedding
+// page shows what went wrong instead of a broken image.
+export function badgeResponse(badge: Badge, url: URL, status = 200): Response {
+  const label = url.searchParams.get("label")?.slice(0, MAX_LABEL_LENGTH);
+  return new Response(renderBadge(label ? { ...badge, label } : badge), {
+    status,
+    headers: {
+      "Content-Type": "image/svg+xml; charset=utf-8",
+      "Cache-Control": status === 200
+        ? `public, max-age=${BADGE_MAX_AGE}`
+        : "no-cache",
+    },
+  });
+}
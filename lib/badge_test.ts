@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import {
+  badgeResponse,
+  currentResult,
+  formatSpeed,
+  renderBadge,
+  textWidth,
+  visibilityBadge,
+} from "./badge.ts";
+import { kv } from "./kv.ts";
+import type { CheckResult } from "./types.ts";
+import { unwatchAsn, watchAsn } from "./watch.ts";
+
+function checkResult(total: number, lowVisibilityCount: number): CheckResult {
+  return {
+    asn: 13335,
+    name: "Cloudflare",
+    ixps: [],
+    bgp: {
+      total,
+      v4: total,
+      v6: 0,
+      avgVisibility: 2345,
+      minVisibility: 0,
+      maxVisibility: 3000,
+      // Capped, as in stored results.
+      lowVisibility: [],
+      lowVisibilityCount,
+      visibilityBuckets: [],
+      rpki: null,
+      addressSpace: {
+        v4Addresses: 0,
+        v6Slash48s: 0,
+        moreSpecifics: 0,
+        aggregates: 0,
+      },
+    },
+    ixpsGlobal: 300,
+    cfIxpsGlobal: 300,
+  };
+}
+
+Deno.test("textWidth approximates Verdana widths", () => {
+  assert.equal(textWidth(""), 0);
+  assert.equal(textWidth("il"), 8);
+  assert.equal(textWidth("mW"), 20);
+  assert.equal(textWidth("AS1"), 23);
+  assert.equal(textWidth("ab"), 13);
+  // Rounded once, not per character.
+  assert.equal(textWidth("a A"), 18);
+});
+
+Deno.test("renderBadge sizes both halves and escapes text", () => {
+  const svg = renderBadge({
+    label: "a<b>",
+    message: "\"x\" & 'y'",
+    color: "green",
+  });
+  const labelWidth = textWidth("a<b>") + 10;
+  const width = labelWidth + textWidth("\"x\" & 'y'") + 10;
+  assert.ok(
+    svg.startsWith(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}"`),
+  );
+  assert.ok(
+    svg.includes(`<rect width="${labelWidth}" height="20" fill="#555"/>`),
+  );
+  assert.ok(svg.includes(`fill="#4c1"`));
+  assert.ok(
+    svg.includes("<title>a&#60;b&#62;: &#34;x&#34; &#38; &#39;y&#39;</title>"),
+  );
+  assert.ok(!/<b>|"x"/.test(svg));
+});
+
+Deno.test("visibilityBadge rates every low prefix, not the capped list", () => {
+  assert.deepEqual(visibilityBadge(checkResult(1000, 0)), {
+    label: "AS13335 visibility",
+    message: "avg 2,345",
+    color: "green",
+  });
+  assert.equal(visibilityBadge(checkResult(1000, 49)).color, "yellow");
+  // More low prefixes than the result lists.
+  const badge = visibilityBadge(checkResult(1000, 120));
+  assert.equal(badge.message, "avg 2,345 · 120 low");
+  assert.equal(badge.color, "red");
+  assert.equal(visibilityBadge(checkResult(0, 0)).message, "no prefixes");
+});
+
+Deno.test("formatSpeed rounds to whole gigabits", () => {
+  assert.equal(formatSpeed(100), "100M");
+  assert.equal(formatSpeed(10000), "10G");
+  assert.equal(formatSpeed(1500), "2G");
+});
+
+Deno.test("badgeResponse overrides the label and only caches successes", async () => {
+  const badge = { label: "x", message: "y", color: "blue" } as const;
+  const ok = badgeResponse(
+    badge,
+    new URL(`http://localhost/badge?label=${"l".repeat(100)}`),
+  );
+  assert.equal(ok.headers.get("Cache-Control"), "public, max-age=300");
+  assert.equal(ok.headers.get("Content-Type"), "image/svg+xml; charset=utf-8");
+  assert.ok((await ok.text()).includes(`<title>${"l".repeat(64)}: y</title>`));
+  const failed = badgeResponse(badge, new URL("http://localhost/badge"), 500);
+  assert.equal(failed.headers.get("Cache-Control"), "no-cache");
+});
+
+Deno.test("currentResult only reads what is stored", async () => {
+  const asn = 4_220_000_000;
+  assert.equal(await currentResult(asn), "not monitored");
+  // Looking did not add a watch.
+  assert.equal((await kv.get(["watch", asn])).value, null);
+
+  assert.ok(await watchAsn(asn));
+  try {
+    assert.equal(await currentResult(asn), "pending");
+    const stored = { result: checkResult(1, 0), generatedAt: 1 };
+    await kv.set(["result", asn], stored);
+    assert.deepEqual(await currentResult(asn), stored);
+  } finally {
+    await unwatchAsn(asn);
+    await kv.delete(["result", asn]);
+  }
+});
@@ -0,0 +1,214 @@
+import type { CacheStatus } from "./caches.ts";
+import { CLOUDFLARE_AS } from "./config.ts";
+import { recordPrefixChanges } from "./changes.ts";
+import { parsePrefix } from "./ip.ts";
+import { PrefixTrie } from "./trie.ts";
+import { recordCacheLookup } from "./metrics.ts";
+import type { CollectorPeer } from "./mrt.ts";
+import { routingTable } from "./providers.ts";
+import { recordSourceError, recordSourceSuccess } from "./sources.ts";
+import { listWatchedAsns } from "./watch.ts";
+
+// An AS path with prepending removed, origin last.
+export interface AsPath {
+  asns: number[];
+  // Collector peers that have the route via this path.
+  peers: number;
+}
+
+export interface BgpEntry {
+  CIDR: string;
+  ASN: number;
+  Hits: number;
+  // Only from MRT RIB dumps, and only for watched ASNs: the collector peers
+  // with a route (indices into BgpTable.peers) and the paths they see.
+  peers?: number[];
+  paths?: AsPath[];
+}
+
+export interface BgpTableStats {
+  entries: number;
+  v4: number;
+  v6: number;
+  originAsns: number;
+  // Records the provider could not read as a route, or with a bad prefix.
+  parseErrors: number;
+}
+
+export interface BgpTable {
+  // Entries of the watched ASNs only, keyed by origin ASN.
+  byAsn: Map<number, BgpEntry[]>;
+  // ASNs that were watched during the download, announcing or not.
+  watched: Set<number>;
+  // Every route in the table, for longest-prefix-match lookups.
+  routes: { v4: PrefixTrie; v6: PrefixTrie };
+  // Collector peers, null when the source has no per-peer data.
+  peers: CollectorPeer[] | null;
+  stats: BgpTableStats;
+  fetchedAt: number;
+}
+
+// Only the watched ASNs' entries are kept, which is small enough to hold
+// in memory between refreshes.
+let bgpCache: BgpTable | null = null;
+let bgpDownload: Promise<BgpTable> | null = null;
+const BGP_CACHE_TTL = 1800_000; // 30 min
+// Tables downloaded before this are treated as expired.
+let bgpExpiredAt = 0;
+
+export function entriesForAsn(table: BgpTable, asn: number): BgpEntry[] {
+  return table.byAsn.get(asn) ?? [];
+}
+
+// Stream the full table (several hundred MB) from the routing table
+// provider, keeping the watched ASNs' entries and only indexing the rest in
+// the route tries.
+async function downloadBgpTable(
+  watched: Set<number>,
+  now: number,
+): Promise<BgpTable> {
+  const byAsn = new Map<number, BgpEntry[]>();
+  const originAsns = new Set<number>();
+  const routes = { v4: new PrefixTrie("v4"), v6: new PrefixTrie("v6") };
+  const stats: BgpTableStats = {
+    entries: 0,
+    v4: 0,
+    v6: 0,
+    originAsns: 0,
+    parseErrors: 0,
+  };
+
+  const read = await routingTable.read((entry) => {
+    const prefix = parsePrefix(entry.CIDR);
+    if (!prefix) {
+      stats.parseErrors++;
+      return;
+    }
+    stats.entries++;
+    stats[prefix.family]++;
+    originAsns.add(entry.ASN);
+    routes[prefix.family].insert(
+      prefix.words,
+      prefix.length,
+      entry.ASN,
+      entry.Hits,
+    );
+
+    if (watched.has(entry.ASN)) {
+      const kept: BgpEntry = {
+        CIDR: entry.CIDR,
+        ASN: entry.ASN,
+        Hits: entry.Hits,
+      };
+      if (entry.peers) kept.peers = entry.peers;
+      if (entry.paths) kept.paths = entry.paths;
+      const list = byAsn.get(entry.ASN);
+      if (list) list.push(kept);
+      else byAsn.set(entry.ASN, [kept]);
+    }
+  }, (asn) => watched.has(asn));
+  stats.parseErrors += read.unreadable;
+  stats.originAsns = originAsns.size;
+
+  if (stats.entries === 0) {
+    throw new Error(`${routingTable.name} returned an empty table`);
+  }
+
+  return {
+    byAsn,
+    watched,
+    routes,
+    peers: read.peers,
+    stats,
+    fetchedAt: now,
+  };
+}
+
+// Return the cached table when it's fresh and covers `asn`, otherwise download
+// it again. Concurrent callers share one download.
+export async function fetchBgpTable(
+  asn: number = CLOUDFLARE_AS,
+): Promise<BgpTable> {
+  if (bgpDownload) await bgpDownload.catch(() => {});
+
+  const now = Date.now();
+  if (
+    bgpCache && bgpCache.watched.has(asn) &&
+    now - bgpCache.fetchedAt < BGP_CACHE_TTL &&
+    bgpCache.fetchedAt > bgpExpiredAt
+  ) {
+    recordCacheLookup("bgp", true);
+    return bgpCache;
+  }
+
+  recordCacheLookup("bgp", false);
+  bgpDownload ??= refreshBgpTable().finally(() => {
+    bgpDownload = null;
+  });
+  return await bgpDownload;
+}
+
+async function refreshBgpTable(): Promise<BgpTable> {
+  const now = Date.now();
+  const start = performance.now();
+  let table: BgpTable;
+  try {
+    table = await downloadBgpTable(await listWatchedAsns(), now);
+  } catch (err) {
+    await recordSourceError("bgp", err, performance.now() - start);
+    // A failed download never replaces the table we already have.
+    if (bgpCache) {
+      console.warn(
+        `${routingTable.name} refresh failed, using cached table:`,
+        err,
+      );
+      return bgpCache;
+    }
+    throw err;
+  }
+  await recordSourceSuccess("bgp", performance.now() - start, now, {
+    ...table.stats,
+  });
+
+  bgpCache = table;
+
+  try {
+    await recordPrefixChanges(
+      CLOUDFLARE_AS,
+      entriesForAsn(table, CLOUDFLARE_AS),
+      now,
+    );
+  } catch (err) {
+    // A failed diff must not fail the check itself.
+    console.error("Prefix diff failed:", err);
+  }
+
+  return table;
+}
+
+// Make the next fetchBgpTable download the table again. The current one is
+// still served if that download fails.
+export function expireBgpTable(now = Date.now()): void {
+  bgpExpiredAt = now;
+}
+
+export function bgpCacheStatus(now = Date.now()): CacheStatus {
+  return {
+    name: "bgp",
+    storage: "memory",
+    ttlMs: BGP_CACHE_TTL,
+    ageMs: bgpCache && now - bgpCache.fetchedAt,
+    expired: !bgpCache || now - bgpCache.fetchedAt >= BGP_CACHE_TTL ||
+      bgpCache.fetchedAt <= bgpExpiredAt,
+    entries: bgpCache?.stats.entries ?? 0,
+    details: bgpCache
+      ? {
+        watchedAsns: bgpCache.watched.size,
+        keptEntries: [...bgpCache.byAsn.values()].reduce(
+          (sum, list) => sum + list.length,
+          0,
+        ),
+      }
+      : undefined,
+  };
+}
@@ -0,0 +1,69 @@
+import { bgpCacheStatus, expireBgpTable } from "./bgp.ts";
+import { expireRouteObjects, irrCacheStatus } from "./irr.ts";
+import { expireIxCatalog, ixCatalogCacheStatus } from "./ixps.ts";
+import { expirePeeringDbCache, peeringDbCacheStatus } from "./peeringdb.ts";
+import { resultCacheStatus } from "./refresh.ts";
+import { expireVrps, vrpCacheStatus } from "./rpki.ts";
+import { SOURCE_NAMES, type SourceName } from "./sources.ts";
+
+export interface CacheStatus {
+  name: string;
+  // In-memory caches are per instance, KV caches are shared.
+  storage: "memory" | "kv";
+  ttlMs: number;
+  // Age of the cached data, of the oldest entry for KV caches. Null when
+  // nothing is cached.
+  ageMs: number | null;
+  // Whether (some of) the data is reloaded on next use.
+  expired: boolean;
+  // Routes, VRPs, route objects, IXPs or KV entries.
+  entries: number;
+  // Approximate serialized size, KV caches only.
+  bytes?: number;
+  details?: Record<string, number>;
+}
+
+export async function getCacheStatus(
+  now = Date.now(),
+): Promise<CacheStatus[]> {
+  return [
+    bgpCacheStatus(now),
+    vrpCacheStatus(now),
+    irrCacheStatus(now),
+    ...ixCatalogCacheStatus(now),
+    await peeringDbCacheStatus(now),
+    await resultCacheStatus(now),
+  ];
+}
+
+const EXPIRE: Record<SourceName, (now: number) => void> = {
+  bgp: expireBgpTable,
+  peeringdb: (now) => {
+    expirePeeringDbCache(now);
+    expireIxCatalog(now);
+  },
+  rpki: expireVrps,
+  irr: expireRouteObjects,
+};
+
+// Parse a comma-separated `source` parameter; all sources when it is absent.
+// Returns an error message for an unknown name.
+export function parseSourceNames(param: string | null): SourceName[] | string {
+  if (!param) return SOURCE_NAMES;
+  const names: SourceName[] = [];
+  for (const part of param.split(",")) {
+    const name = part.trim() as SourceName;
+    if (!SOURCE_NAMES.includes(name)) {
+      return `Unknown source "${part}", expected one of ${
+        SOURCE_NAMES.join(", ")
+      }`;
+    }
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+// Expire the caches fed by `sources`, so the next refresh fetches them again.
+export function expireSources(sources: SourceName[], now = Date.now()): void {
+  for (const name of sources) EXPIRE[name](now);
+}
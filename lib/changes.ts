@@ -0,0 +1,179 @@
+import { kv } from "./kv.ts";
+import type { BgpEntry } from "./bgp.ts";
+
+export type PrefixChangeKind = "announced" | "withdrawn" | "visibility";
+
+export interface PrefixChange {
+  timestamp: number;
+  asn: number;
+  prefix: string;
+  kind: PrefixChangeKind;
+  previousHits: number | null;
+  hits: number | null;
+}
+
+const CHANGE_RETENTION = 7 * 86400_000; // 7 days
+
+// A visibility change is only worth recording when Hits moved by at least
+// half of its previous value and by a meaningful number of peers.
+const HITS_CHANGE_RATIO = 0.5;
+const HITS_CHANGE_MIN = 100;
+
+// The previous prefix set is persisted so a restart doesn't lose the
+// comparison point. It's split into chunks to stay under KV's 64KB value limit.
+const BASELINE_CHUNK_SIZE = 1500;
+
+// Written after each refresh that found changes, so /api/events can watch a
+// single key instead of the whole change log.
+export const LATEST_CHANGES_KEY = ["events", "changes"];
+
+export interface LatestChanges {
+  timestamp: number;
+  asn: number;
+  count: number;
+}
+
+interface BaselineMeta {
+  timestamp: number;
+  chunks: number;
+}
+
+export function diffPrefixes(
+  asn: number,
+  previous: Map<string, number>,
+  current: Map<string, number>,
+  timestamp: number,
+): PrefixChange[] {
+  const changes: PrefixChange[] = [];
+
+  for (const [prefix, hits] of current) {
+    const previousHits = previous.get(prefix);
+    if (previousHits === undefined) {
+      changes.push({
+        timestamp,
+        asn,
+        prefix,
+        kind: "announced",
+        previousHits: null,
+        hits,
+      });
+      continue;
+    }
+    const delta = Math.abs(hits - previousHits);
+    if (
+      delta >= HITS_CHANGE_MIN &&
+      delta >= Math.max(previousHits, 1) * HITS_CHANGE_RATIO
+    ) {
+      changes.push({
+        timestamp,
+        asn,
+        prefix,
+        kind: "visibility",
+        previousHits,
+        hits,
+      });
+    }
+  }
+
+  for (const [prefix, previousHits] of previous) {
+    if (!current.has(prefix)) {
+      changes.push({
+        timestamp,
+        asn,
+        prefix,
+        kind: "withdrawn",
+        previousHits,
+        hits: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+async function loadBaseline(
+  asn: number,
+): Promise<Map<string, number> | null> {
+  const meta = await kv.get<BaselineMeta>(["bgp", "baseline", asn, "meta"]);
+  if (!meta.value) return null;
+
+  const keys = Array.from(
+    { length: meta.value.chunks },
+    (_, i) => ["bgp", "baseline", asn, i],
+  );
+  const prefixes = new Map<string, number>();
+  // kv.getMany accepts at most 10 keys per call.
+  for (let i = 0; i < keys.length; i += 10) {
+    const chunks = await kv.getMany<[string, number][][]>(
+      keys.slice(i, i + 10),
+    );
+    for (const chunk of chunks) {
+      // A missing chunk means a half-written baseline; don't diff against it.
+      if (!chunk.value) return null;
+      for (const [prefix, hits] of chunk.value) prefixes.set(prefix, hits);
+    }
+  }
+  return prefixes;
+}
+
+async function saveBaseline(
+  asn: number,
+  prefixes: Map<string, number>,
+  timestamp: number,
+): Promise<void> {
+  const pairs = [...prefixes];
+  const chunks = Math.ceil(pairs.length / BASELINE_CHUNK_SIZE);
+  const op = kv.atomic();
+  for (let i = 0; i < chunks; i++) {
+    op.set(
+      ["bgp", "baseline", asn, i],
+      pairs.slice(i * BASELINE_CHUNK_SIZE, (i + 1) * BASELINE_CHUNK_SIZE),
+    );
+  }
+  op.set(["bgp", "baseline", asn, "meta"], { timestamp, chunks });
+  await op.commit();
+}
+
+// Compare a freshly downloaded set of prefixes for `asn` against the one
+// from the previous refresh and persist whatever changed.
+export async function recordPrefixChanges(
+  asn: number,
+  entries: BgpEntry[],
+  timestamp: number,
+): Promise<PrefixChange[]> {
+  const current = new Map(entries.map((e) => [e.CIDR, e.Hits]));
+  const previous = await loadBaseline(asn);
+  await saveBaseline(asn, current, timestamp);
+
+  // First refresh ever: nothing to compare against yet.
+  if (!previous) return [];
+
+  const changes = diffPrefixes(asn, previous, current, timestamp);
+  for (const change of changes) {
+    await kv.set(["changes", timestamp, asn, change.prefix], change, {
+      expireIn: CHANGE_RETENTION,
+    });
+  }
+  if (changes.length > 0) {
+    await kv.set(
+      LATEST_CHANGES_KEY,
+      { timestamp, asn, count: changes.length } satisfies LatestChanges,
+    );
+  }
+  return changes;
+}
+
+export async function listPrefixChanges(
+  since: number,
+  limit: number,
+): Promise<PrefixChange[]> {
+  const changes: PrefixChange[] = [];
+  const iter = kv.list<PrefixChange>(
+    { start: ["changes", since], end: ["changes", Number.MAX_SAFE_INTEGER] },
+    { reverse: true, limit },
+  );
+  for await (const entry of iter) {
+    changes.push(entry.value);
+  }
+  return changes;
+}
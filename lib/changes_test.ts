@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { diffPrefixes, recordPrefixChanges } from "./changes.ts";
+import { kv } from "./kv.ts";
+
+Deno.test("diffPrefixes reports announcements and withdrawals", () => {
+  const changes = diffPrefixes(
+    13335,
+    new Map([["1.1.1.0/24", 3000], ["1.0.0.0/24", 3000]]),
+    new Map([["1.1.1.0/24", 3000], ["2606:4700::/32", 2900]]),
+    1000,
+  );
+  assert.deepEqual(changes, [
+    {
+      timestamp: 1000,
+      asn: 13335,
+      prefix: "2606:4700::/32",
+      kind: "announced",
+      previousHits: null,
+      hits: 2900,
+    },
+    {
+      timestamp: 1000,
+      asn: 13335,
+      prefix: "1.0.0.0/24",
+      kind: "withdrawn",
+      previousHits: 3000,
+      hits: null,
+    },
+  ]);
+});
+
+Deno.test("diffPrefixes needs a large and relative visibility change", () => {
+  const kinds = (previous: number, current: number) =>
+    diffPrefixes(
+      13335,
+      new Map([["1.1.1.0/24", previous]]),
+      new Map([["1.1.1.0/24", current]]),
+      0,
+    ).map((c) => `${c.kind} ${c.previousHits}->${c.hits}`);
+  // Half of the peers lost, and at least 100 of them.
+  assert.deepEqual(kinds(3000, 1500), ["visibility 3000->1500"]);
+  assert.deepEqual(kinds(3000, 1501), []);
+  // Relative, but too few peers.
+  assert.deepEqual(kinds(150, 60), []);
+  assert.deepEqual(kinds(200, 100), ["visibility 200->100"]);
+  // Gains count too, also from nothing.
+  assert.deepEqual(kinds(1000, 1500), ["visibility 1000->1500"]);
+  assert.deepEqual(kinds(0, 100), ["visibility 0->100"]);
+});
+
+Deno.test("recordPrefixChanges diffs against the persisted baseline", async () => {
+  // A private-use ASN, and enough prefixes for several baseline chunks.
+  const asn = 4_230_000_000;
+  const entries = Array.from({ length: 3200 }, (_, i) => ({
+    CIDR: `10.${i >> 8}.${i & 255}.0/24`,
+    ASN: asn,
+    Hits: 1000,
+  }));
+  try {
+    assert.deepEqual(await recordPrefixChanges(asn, entries, 1), []);
+
+    const next = entries.slice(1).map((e, i) =>
+      i === 3000 ? { ...e, Hits: 100 } : e
+    );
+    const changes = await recordPrefixChanges(asn, next, 2);
+    assert.deepEqual(changes.map((c) => `${c.kind} ${c.prefix}`), [
+      "visibility 10.11.185.0/24",
+      "withdrawn 10.0.0.0/24",
+    ]);
+    const stored = await kv.get(["changes", 2, asn, "10.0.0.0/24"]);
+    assert.equal((stored.value as { kind: string }).kind, "withdrawn");
+  } finally {
+    for (const prefix of [["bgp", "baseline", asn], ["changes", 2, asn]]) {
+      for await (const entry of kv.list({ prefix })) {
+        await kv.delete(entry.key);
+      }
+    }
+  }
+});
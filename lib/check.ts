@@ -0,0 +1,212 @@
+import { analyzeAddressSpace } from "./aggregate.ts";
+import { entriesForAsn, fetchBgpTable } from "./bgp.ts";
+import { DEFAULT_SELECTION, type IxpSelection, selectIxps } from "./ixps.ts";
+import { type AsnIxIds, fetchAsnIxIdsBatch } from "./peeringdb.ts";
+import { describePrefixes } from "./prefixes.ts";
+import { fetchVrps } from "./rpki.ts";
+import { recordSourceError, recordSourceSuccess } from "./sources.ts";
+import {
+  CLOUDFLARE_AS,
+  type NetworkDef,
+  NETWORKS,
+  type RegionalIxp,
+} from "./config.ts";
+import type {
+  CfPrefixInfo,
+  CheckResult,
+  IxpResult,
+  RpkiSummary,
+  VisibilityBucket,
+} from "./types.ts";
+
+// PeeringDB memberships for every given network, reported as a single
+// source: its age is that of the oldest network's data. Status is only
+// recorded when PeeringDB was queried; every write is pushed to each open
+// event stream.
+async function fetchNetworkIxIds(networks: NetworkDef[]) {
+  const start = performance.now();
+  const byAsn = await fetchAsnIxIdsBatch(networks.map((n) => n.asn));
+  const results = networks.map((n) => byAsn.get(n.asn)!);
+  if (results.every((r) => r.cached)) return results;
+  const duration = performance.now() - start;
+
+  // One batched request fails for every network alike.
+  const errors = new Set(results.flatMap((r) => r.error ? [r.error] : []));
+  if (errors.size > 0) {
+    await recordSourceError("peeringdb", [...errors].join("; "), duration);
+  } else {
+    const oldest = Math.min(...results.map((r) => r.fetchedAt ?? 0));
+    await recordSourceSuccess("peeringdb", duration, oldest);
+  }
+  return results;
+}
+
+// The monitored AS is always shown alongside the usual networks.
+export function networksFor(asn: number): NetworkDef[] {
+  return NETWORKS.some((n) => n.asn === asn)
+    ? NETWORKS
+    : [...NETWORKS, { asn, name: `AS${asn}` }];
+}
+
+// IXP-centric view with per-network presence.
+function buildIxpResults(
+  ixps: RegionalIxp[],
+  networks: NetworkDef[],
+  networkIxData: AsnIxIds[],
+): IxpResult[] {
+  return ixps.map((ixp) => ({
+    id: ixp.id,
+    name: ixp.name,
+    country: ixp.country,
+    networks: networks.map((net, i) => {
+      const ports = networkIxData[i].ports.get(ixp.id) ?? [];
+      return {
+        asn: net.asn,
+        name: net.name,
+        present: networkIxData[i].ixIds.has(ixp.id),
+        dataStatus: networkIxData[i].status,
+        ports,
+        totalSpeed: ports.reduce((sum, p) => sum + p.speed, 0),
+        rsPeer: ports.some((p) => p.rsPeer),
+      };
+    }).sort((a, b) =>
+      Number(b.present) - Number(a.present) ||
+      Number(a.dataStatus === "unknown") -
+        Number(b.dataStatus === "unknown") ||
+      a.name.localeCompare(b.name)
+    ),
+  }));
+}
+
+// Presence of the networks compared with `asn` at another set of IXPs than
+// the stored result's. Memberships come from the PeeringDB cache.
+export async function computeIxpPresence(
+  asn: number,
+  selection: IxpSelection,
+): Promise<IxpResult[]> {
+  const networks = networksFor(asn);
+  const [ixps, networkIxData] = await Promise.all([
+    selectIxps(selection),
+    fetchNetworkIxIds(networks),
+  ]);
+  return buildIxpResults(ixps, networks, networkIxData);
+}
+
+// Prefixes seen by fewer collector peers than this count as low visibility.
+export function lowVisibilityThreshold(avgVisibility: number): number {
+  return Math.max(1000, avgVisibility * 0.5);
+}
+
+// The stored result only lists this many of the least visible prefixes.
+const MAX_LOW_VISIBILITY = 50;
+
+export interface CheckComputation {
+  result: CheckResult;
+  // Every announced prefix, for consumers the capped lists would mislead.
+  prefixes: CfPrefixInfo[];
+}
+
+// Download (or reuse cached) BGP and PeeringDB data and build a CheckResult
+// for the prefixes originated by `asn`.
+export async function computeCheckResult(
+  asn: number = CLOUDFLARE_AS,
+): Promise<CheckComputation> {
+  const networks = networksFor(asn);
+  const name = networks.find((n) => n.asn === asn)!.name;
+
+  // Fetch all data in parallel
+  const [bgpTable, networkIxData, vrps, regionIxps] = await Promise.all([
+    fetchBgpTable(asn),
+    fetchNetworkIxIds(networks),
+    fetchVrps(),
+    selectIxps(DEFAULT_SELECTION),
+  ]);
+  const networkIxIds = networkIxData.map((d) => d.ixIds);
+  const ixps = buildIxpResults(regionIxps, networks, networkIxData);
+
+  const cfIdx = networks.findIndex((n) => n.asn === CLOUDFLARE_AS);
+  const cfIxIds = networkIxIds[cfIdx];
+  const asnIxIds = networkIxIds[networks.findIndex((n) => n.asn === asn)];
+
+  // BGP stats
+  const asnBgpEntries = entriesForAsn(bgpTable, asn);
+  const v4Prefixes = asnBgpEntries.filter((e) => !e.CIDR.includes(":"));
+  const v6Prefixes = asnBgpEntries.filter((e) => e.CIDR.includes(":"));
+
+  const addressSpace = analyzeAddressSpace(asnBgpEntries);
+  const prefixes = describePrefixes(
+    asnBgpEntries,
+    vrps,
+    addressSpace.moreSpecifics,
+  );
+
+  // RPKI origin validation, when a VRP set is available
+  let rpki: RpkiSummary | null = null;
+  if (vrps) {
+    rpki = { valid: 0, invalid: 0, notFound: 0 };
+    for (const p of prefixes) {
+      if (p.rpki === "valid") rpki.valid++;
+      else if (p.rpki === "invalid") rpki.invalid++;
+      else rpki.notFound++;
+    }
+  }
+
+  const visibilities = asnBgpEntries.map((e) => e.Hits);
+  const avgVisibility = visibilities.length > 0
+    ? Math.round(
+      visibilities.reduce((a, b) => a + b, 0) / visibilities.length,
+    )
+    : 0;
+  const minVisibility = visibilities.length > 0 ? Math.min(...visibilities) : 0;
+  const maxVisibility = visibilities.length > 0 ? Math.max(...visibilities) : 0;
+
+  const visThreshold = lowVisibilityThreshold(avgVisibility);
+  const allLow = prefixes.filter((p) => p.visibility < visThreshold);
+  const lowVisibility: CfPrefixInfo[] = allLow
+    .sort((a, b) => a.visibility - b.visibility)
+    .slice(0, MAX_LOW_VISIBILITY);
+
+  const buckets: VisibilityBucket[] = [
+    { label: "0-500", min: 0, count: 0 },
+    { label: "500-1000", min: 500, count: 0 },
+    { label: "1000-2000", min: 1000, count: 0 },
+    { label: "2000-3000", min: 2000, count: 0 },
+    { label: "3000+", min: 3000, count: 0 },
+  ];
+  for (const e of asnBgpEntries) {
+    if (e.Hits >= 3000) buckets[4].count++;
+    else if (e.Hits >= 2000) buckets[3].count++;
+    else if (e.Hits >= 1000) buckets[2].count++;
+    else if (e.Hits >= 500) buckets[1].count++;
+    else buckets[0].count++;
+  }
+
+  const result: CheckResult = {
+    asn,
+    name,
+    ixps,
+    bgp: {
+      total: asnBgpEntries.length,
+      v4: v4Prefixes.length,
+      v6: v6Prefixes.length,
+      avgVisibility,
+      minVisibility,
+      maxVisibility,
+      lowVisibility,
+      lowVisibilityCount: allLow.length,
+      visibilityBuckets: buckets,
+      rpki,
+      addressSpace: {
+        v4Addresses: addressSpace.v4Addresses,
+        v6Slash48s: addressSpace.v6Slash48s,
+        moreSpecifics: addressSpace.moreSpecifics.length,
+        aggregates: addressSpace.aggregates.v4.length +
+          addressSpace.aggregates.v6.length,
+      },
+    },
+    ixpsGlobal: asnIxIds.size,
+    cfIxpsGlobal: cfIxIds.size,
+  };
+
+  return { result, prefixes };
+}
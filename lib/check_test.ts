@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+
+// The check runs offline against the fixtures. Sources are read from the
+// environment when the modules load, hence the dynamic import.
+const fixture = (name: string) =>
+  new URL(`../fixtures/${name}`, import.meta.url).pathname;
+Deno.env.set("ROUTING_TABLE_SOURCE", `file:${fixture("table.jsonl")}`);
+Deno.env.set("IXP_SOURCE", `file:${fixture("peeringdb.json")}`);
+Deno.env.set("VRP_SOURCE", fixture("vrps.json"));
+const { computeCheckResult } = await import("./check.ts");
+
+Deno.test("computeCheckResult runs offline from the fixtures", async () => {
+  const { result, prefixes } = await computeCheckResult(13335);
+  assert.equal(result.name, "Cloudflare");
+  assert.equal(prefixes.length, 13);
+  assert.deepEqual(
+    { total: result.bgp.total, v4: result.bgp.v4, v6: result.bgp.v6 },
+    { total: 13, v4: 10, v6: 3 },
+  );
+  assert.deepEqual(result.bgp.rpki, { valid: 8, invalid: 2, notFound: 3 });
+  const rpki = new Map(prefixes.map((p) => [p.prefix, p.rpki]));
+  assert.equal(rpki.get("188.114.96.0/20"), "invalid");
+  assert.equal(rpki.get("2a06:98c0::/29"), "not-found");
+  assert.deepEqual(
+    result.bgp.lowVisibility.map((p) => p.prefix),
+    ["141.101.64.0/18", "2a06:98c0::/29", "188.114.96.0/20"],
+  );
+  assert.equal(result.bgp.lowVisibilityCount, 3);
+  assert.equal(result.bgp.addressSpace.moreSpecifics, 2);
+
+  // The curated default list, all in the dump, which also has Ashburn.
+  assert.equal(result.ixps.length, 15);
+  assert.equal(result.ixpsGlobal, 16);
+  const amsIx = result.ixps.find((ixp) => ixp.id === 26);
+  assert.deepEqual(
+    amsIx?.networks.filter((n) => n.present).map((n) => n.asn).sort((a, b) =>
+      a - b
+    ),
+    [8075, 13335, 15169, 16509, 40401, 202053],
+  );
+  const bnix = result.ixps.find((ixp) => ixp.id === 59);
+  assert.deepEqual(
+    bnix?.networks.filter((n) => n.present).map((n) => n.asn),
+    [13335],
+  );
+});
@@ -0,0 +1,84 @@
+export const USER_AGENT =
+  "cloudflare-network-monitor/1.0 - github.com/mikepage/cloudflare-network-monitor";
+
+export const PEERINGDB_API_KEY = Deno.env.get("PEERINGDB_API_KEY") ?? "";
+
+// Bearer token required by the write/admin API routes. When unset those
+// routes are disabled.
+export const ADMIN_TOKEN = Deno.env.get("ADMIN_TOKEN") ?? "";
+
+// Where the routing table and IXP memberships come from: "http" for
+// bgp.tools and the PeeringDB API, or "file:<path>" to run offline from a
+// bgp.tools JSON Lines dump and a PeeringDB JSON dump respectively. The
+// routing table can also be read from an MRT RIB dump with "mrt:<path>".
+// fixtures/ has small dumps of both for development and tests:
+// file:fixtures/table.jsonl and file:fixtures/peeringdb.json.
+export const ROUTING_TABLE_SOURCE = Deno.env.get("ROUTING_TABLE_SOURCE") ??
+  "http";
+export const IXP_SOURCE = Deno.env.get("IXP_SOURCE") ?? "http";
+
+// VRP export (rpki-client or Routinator JSON) used for RPKI origin
+// validation: a URL, e.g. https://console.rpki-client.org/vrps.json (about
+// 100MB, fetched hourly), or a local path. Empty, the default, disables
+// validation.
+export const VRP_SOURCE = Deno.env.get("VRP_SOURCE") ?? "";
+
+// RPSL dump (plain or .gz, e.g. RADb's radb.db.gz) with the route and route6
+// objects announced prefixes are checked against. Empty disables the check.
+export const IRR_DUMP = Deno.env.get("IRR_DUMP") ?? "";
+
+export const CLOUDFLARE_AS = 13335;
+
+// IXPs compared by default: "curated" for REGIONAL_IXPS below, or a key of
+// REGIONS in lib/ixps.ts to compare that region's busiest exchanges instead.
+// Users can switch regions or pick exchanges in the UI.
+export const IXP_REGION = Deno.env.get("IXP_REGION") ?? "curated";
+
+// European IXPs — PeeringDB IX IDs. The default comparison, and the fallback
+// for a configured default region when the PeeringDB ix catalog cannot be
+// loaded.
+export interface RegionalIxp {
+  id: number;
+  name: string;
+  country: string;
+}
+
+export const REGIONAL_IXPS: RegionalIxp[] = [
+  { id: 26, name: "AMS-IX", country: "NL" },
+  { id: 59, name: "BNIX", country: "BE" },
+  { id: 33, name: "CIXP", country: "CH" },
+  { id: 31, name: "DE-CIX FRA", country: "DE" },
+  { id: 74, name: "DE-CIX HAM", country: "DE" },
+  { id: 248, name: "DE-CIX MUC", country: "DE" },
+  { id: 63, name: "ESPANIX", country: "ES" },
+  { id: 359, name: "FranceIX PAR", country: "FR" },
+  { id: 18, name: "LINX LON1", country: "GB" },
+  { id: 297, name: "LU-CIX", country: "LU" },
+  { id: 49, name: "MIX-IT", country: "IT" },
+  { id: 70, name: "Netnod STO", country: "SE" },
+  { id: 48, name: "NL-ix", country: "NL" },
+  { id: 35, name: "SwissIX", country: "CH" },
+  { id: 50, name: "VIX", country: "AT" },
+];
+
+// Networks to check connectivity to Cloudflare
+export interface NetworkDef {
+  asn: number;
+  name: string;
+}
+
+export const NETWORKS: NetworkDef[] = [
+  { asn: 16509, name: "AWS" },
+  { asn: 8075, name: "Azure" },
+  { asn: 40401, name: "Backblaze" },
+  { asn: 13335, name: "Cloudflare" },
+  { asn: 15169, name: "Google" },
+  { asn: 202053, name: "UpCloud" },
+];
+
+// Origin ASNs whose prefixes are kept from the BGP table; everything else is
+// only counted.
+export const WATCHED_ASNS = new Set([
+  CLOUDFLARE_AS,
+  ...NETWORKS.map((n) => n.asn),
+]);
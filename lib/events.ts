@@ -0,0 +1,114 @@
+import {
+  LATEST_CHANGES_KEY,
+  type LatestChanges,
+  listPrefixChanges,
+} from "./changes.ts";
+import { CLOUDFLARE_AS } from "./config.ts";
+import { kv } from "./kv.ts";
+import { presentResult, type StoredResult } from "./refresh.ts";
+import { getSourceReports, SOURCE_NAMES } from "./sources.ts";
+
+// Comment lines keep proxies from closing an idle stream.
+const HEARTBEAT_INTERVAL = 25_000;
+// Reconnection delay suggested to EventSource clients.
+const RETRY_MS = 5000;
+const MAX_PUSHED_CHANGES = 200;
+
+// Server-Sent Events for one monitored AS: `result` whenever a refresh
+// stores a new result, `sources` when only source status moved, and
+// `changes` with the prefix changes a refresh found (Cloudflare only, like
+// the change log). Driven by KV watches, so updates written by any instance
+// reach every stream. A result newer than `since` is sent straight away, so
+// a reconnecting client catches up.
+export function eventStream(
+  asn: number,
+  since: number | null,
+): ReadableStream<Uint8Array> {
+  const keys: Deno.KvKey[] = [
+    ["result", asn],
+    ...SOURCE_NAMES.map((name) => ["sources", name]),
+  ];
+  const changesIndex = asn === CLOUDFLARE_AS ? keys.length : -1;
+  if (changesIndex !== -1) keys.push(LATEST_CHANGES_KEY);
+
+  const encoder = new TextEncoder();
+  let reader: ReadableStreamDefaultReader<Deno.KvEntryMaybe<unknown>[]>;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stop = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    reader?.cancel().catch(() => {});
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const send = (event: string, data: unknown) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL);
+      reader = kv.watch(keys).getReader();
+
+      const pump = async () => {
+        let previous: (string | null)[] | null = null;
+        while (!closed) {
+          const { value: entries, done } = await reader.read();
+          if (done) break;
+          const stamps = entries.map((e) => e.versionstamp);
+          const changed = (i: number) =>
+            previous !== null && stamps[i] !== previous[i];
+
+          const stored = entries[0].value as StoredResult | null;
+          const sourcesChanged = SOURCE_NAMES.some((_, i) => changed(1 + i));
+          const resultIsNew = previous === null
+            ? stored !== null && since !== null && stored.generatedAt > since
+            : changed(0) && stored !== null;
+          if (resultIsNew) {
+            send(
+              "result",
+              presentResult(asn, stored!, await getSourceReports()),
+            );
+          } else if (sourcesChanged) {
+            send("sources", await getSourceReports());
+          }
+
+          if (changesIndex !== -1 && changed(changesIndex)) {
+            const latest = entries[changesIndex].value as LatestChanges | null;
+            if (latest) {
+              const changes = await listPrefixChanges(
+                latest.timestamp,
+                MAX_PUSHED_CHANGES,
+              );
+              send("changes", {
+                timestamp: latest.timestamp,
+                count: latest.count,
+                changes: changes.filter((c) =>
+                  c.timestamp === latest.timestamp
+                ),
+              });
+            }
+          }
+          previous = stamps;
+        }
+      };
+
+      pump()
+        .catch((err) => {
+          if (!closed) console.error("Event stream failed:", err);
+        })
+        .finally(() => {
+          if (closed) return;
+          stop();
+          controller.close();
+        });
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import type { CfPrefixInfo, CheckResult } from "./types.ts";
+
+export type ExportFormat = "csv" | "ndjson" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "json"];
+
+type Cell = string | number | boolean | null;
+type Row = Record<string, Cell>;
+
+// A flat table: the column order is fixed so CSV headers stay stable when
+// rows are empty.
+export interface ExportTable {
+  columns: string[];
+  rows: Row[];
+}
+
+// --- Datasets ---
+
+// One row per IXP and network in the comparison.
+export function presenceTable(result: CheckResult): ExportTable {
+  return {
+    columns: [
+      "ixp_id",
+      "ixp_name",
+      "country",
+      "asn",
+      "network",
+      "present",
+      "data_status",
+      "rs_peer",
+      "ports",
+      "total_speed_mbps",
+    ],
+    rows: result.ixps.flatMap((ixp) =>
+      ixp.networks.map((net) => ({
+        ixp_id: ixp.id,
+        ixp_name: ixp.name,
+        country: ixp.country,
+        asn: net.asn,
+        network: net.name,
+        // Empty rather than false when PeeringDB data is missing.
+        present: net.dataStatus === "unknown" ? null : net.present,
+        data_status: net.dataStatus,
+        rs_peer: net.rsPeer,
+        ports: net.ports.length,
+        total_speed_mbps: net.totalSpeed,
+      }))
+    ),
+  };
+}
+
+export function prefixTable(prefixes: CfPrefixInfo[]): ExportTable {
+  return {
+    columns: ["prefix", "type", "mask", "visibility", "rpki", "covered_by"],
+    rows: prefixes.map((p) => ({
+      prefix: p.prefix,
+      type: p.type,
+      mask: p.mask,
+      visibility: p.visibility,
+      rpki: p.rpki,
+      covered_by: p.coveredBy,
+    })),
+  };
+}
+
+export function bucketTable(result: CheckResult): ExportTable {
+  const { total, visibilityBuckets } = result.bgp;
+  return {
+    columns: ["label", "min_visibility", "prefixes", "share_pct"],
+    rows: visibilityBuckets.map((b) => ({
+      label: b.label,
+      min_visibility: b.min,
+      prefixes: b.count,
+      share_pct: total > 0 ? Math.round((b.count / total) * 1000) / 10 : 0,
+    })),
+  };
+}
+
+// --- Serialization ---
+
+// Quote per RFC 4180, and defuse cells a spreadsheet would evaluate as a
+// formula: network names come straight from PeeringDB.
+function csvCell(value: Cell): string {
+  if (value === null) return "";
+  if (typeof value !== "string") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv({ columns, rows }: ExportTable): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvCell(row[c] ?? null)).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+// Download response for `table`, saved as `<name>.<format>`.
+export function exportResponse(
+  table: ExportTable,
+  format: ExportFormat,
+  name: string,
+): Response {
+  const body = format === "csv"
+    ? toCsv(table)
+    : format === "ndjson"
+    ? table.rows.map((r) => JSON.stringify(r) + "\n").join("")
+    : JSON.stringify(table.rows);
+  return new Response(body, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${name}.${format}"`,
+    },
+  });
+}
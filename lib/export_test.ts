@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { exportResponse, type ExportTable } from "./export.ts";
+
+const TABLE: ExportTable = {
+  columns: ["asn", "network", "present", "note"],
+  rows: [
+    { asn: 13335, network: "Cloudflare, Inc.", present: true, note: null },
+    { asn: 64496, network: '=HYPERLINK("x")', present: false, note: "a\nb" },
+    { asn: 64497, network: "-1", present: null },
+  ],
+};
+
+Deno.test("CSV exports quote and defuse cells", async () => {
+  const resp = exportResponse(TABLE, "csv", "as13335-presence-2026-10-19");
+  assert.equal(resp.headers.get("Content-Type"), "text/csv; charset=utf-8");
+  assert.equal(
+    resp.headers.get("Content-Disposition"),
+    'attachment; filename="as13335-presence-2026-10-19.csv"',
+  );
+  assert.equal(
+    await resp.text(),
+    "asn,network,present,note\r\n" +
+      '13335,"Cloudflare, Inc.",true,\r\n' +
+      `64496,"'=HYPERLINK(""x"")",false,"a\nb"\r\n` +
+      "64497,'-1,,\r\n",
+  );
+});
+
+Deno.test("CSV exports of empty tables keep the header", async () => {
+  const resp = exportResponse({ columns: TABLE.columns, rows: [] }, "csv", "x");
+  assert.equal(await resp.text(), "asn,network,present,note\r\n");
+});
+
+Deno.test("NDJSON and JSON exports carry the rows as they are", async () => {
+  const ndjson = await exportResponse(TABLE, "ndjson", "x").text();
+  assert.deepEqual(
+    ndjson.trimEnd().split("\n").map((line) => JSON.parse(line)),
+    TABLE.rows,
+  );
+  const json = await exportResponse(TABLE, "json", "x").json();
+  assert.deepEqual(json, TABLE.rows);
+});
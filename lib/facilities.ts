@@ -0,0 +1,100 @@
+import { CLOUDFLARE_AS, NETWORKS } from "./config.ts";
+import { DEFAULT_SELECTION, selectIxps } from "./ixps.ts";
+import { fetchAsnFacilities, fetchAsnIxIdsBatch } from "./peeringdb.ts";
+import type { DataStatus } from "./types.ts";
+
+export interface FacilityGroup {
+  country: string;
+  city: string;
+  facilities: { id: number; name: string }[];
+  // Whether both networks meet at a monitored IXP in this country; null when
+  // no monitored IXP is in that country or either's memberships are unknown.
+  // A shared facility without a shared IXP is where a private interconnect
+  // (PNI) is the plausible path.
+  commonIxpInCountry: boolean | null;
+}
+
+export interface FacilityOverlap {
+  asn: number;
+  name: string;
+  // Of the network's facility data; with "unknown" for either network, no
+  // shared facility says nothing.
+  dataStatus: DataStatus;
+  facilities: number;
+  shared: number;
+  groups: FacilityGroup[];
+}
+
+// For every monitored network, the facilities it shares with Cloudflare,
+// grouped by country and city.
+export async function computeFacilityOverlap(): Promise<{
+  cloudflareFacilities: number;
+  cloudflareDataStatus: DataStatus;
+  networks: FacilityOverlap[];
+}> {
+  const others = NETWORKS.filter((n) => n.asn !== CLOUDFLARE_AS);
+  const [cfFacilities, perNetwork, memberships, regionIxps] = await Promise
+    .all([
+      fetchAsnFacilities(CLOUDFLARE_AS),
+      Promise.all(others.map((n) => fetchAsnFacilities(n.asn))),
+      fetchAsnIxIdsBatch([CLOUDFLARE_AS, ...others.map((n) => n.asn)]),
+      selectIxps(DEFAULT_SELECTION),
+    ]);
+  const cfIxIds = memberships.get(CLOUDFLARE_AS)!;
+
+  const cfFacIds = new Set(cfFacilities.facilities.map((f) => f.id));
+
+  const networks = others.map((net, i) => {
+    const { facilities, status } = perNetwork[i];
+    const ixIds = memberships.get(net.asn)!;
+    // Unknown memberships say nothing about a common IXP.
+    const membershipKnown = cfIxIds.status !== "unknown" &&
+      ixIds.status !== "unknown";
+    const shared = facilities.filter((f) => cfFacIds.has(f.id));
+
+    const commonIxpCountries = new Set<string>();
+    const monitoredCountries = new Set<string>();
+    for (const ixp of regionIxps) {
+      monitoredCountries.add(ixp.country);
+      if (cfIxIds.ixIds.has(ixp.id) && ixIds.ixIds.has(ixp.id)) {
+        commonIxpCountries.add(ixp.country);
+      }
+    }
+
+    const groups = new Map<string, FacilityGroup>();
+    for (const f of shared) {
+      const key = `${f.country}|${f.city}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          country: f.country,
+          city: f.city,
+          facilities: [],
+          commonIxpInCountry: membershipKnown &&
+              monitoredCountries.has(f.country)
+            ? commonIxpCountries.has(f.country)
+            : null,
+        };
+        groups.set(key, group);
+      }
+      group.facilities.push({ id: f.id, name: f.name });
+    }
+
+    return {
+      asn: net.asn,
+      name: net.name,
+      dataStatus: status,
+      facilities: facilities.length,
+      shared: shared.length,
+      groups: [...groups.values()].sort((a, b) =>
+        a.country.localeCompare(b.country) || a.city.localeCompare(b.city)
+      ),
+    };
+  });
+
+  return {
+    cloudflareFacilities: cfFacilities.facilities.length,
+    cloudflareDataStatus: cfFacilities.status,
+    networks,
+  };
+}
@@ -0,0 +1,108 @@
+import { networksFor } from "./check.ts";
+import { CLOUDFLARE_AS } from "./config.ts";
+import {
+  fetchIxCatalog,
+  fetchIxLocations,
+  type IxLocation,
+  type IxRecord,
+} from "./ixps.ts";
+import { fetchAsnIxIdsBatch } from "./peeringdb.ts";
+
+// Alternatives reported per missing network.
+const OPTIONS_PER_PATH = 3;
+const EARTH_RADIUS_KM = 6371;
+
+export interface SharedIxp {
+  id: number;
+  name: string;
+  city: string;
+  country: string;
+  // Great-circle distance from the IXP the network is missing at; 0 in the
+  // same city, null when either exchange has no known location.
+  distanceKm: number | null;
+}
+
+// Where traffic between Cloudflare and a network is likely to be exchanged
+// when the network is absent from an IXP Cloudflare is at.
+export interface FallbackPath {
+  ixpId: number;
+  asn: number;
+  name: string;
+  // Closest IXPs where both are present; empty means transit only.
+  options: SharedIxp[];
+}
+
+function haversineKm(a: IxLocation, b: IxLocation): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLon = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+function distanceKm(
+  from: IxRecord,
+  to: IxRecord,
+  locations: Map<number, IxLocation>,
+): number | null {
+  const a = locations.get(from.id);
+  const b = locations.get(to.id);
+  if (a && b) return Math.round(haversineKm(a, b));
+  const sameCity = from.country === to.country && from.city !== "" &&
+    from.city.toLowerCase() === to.city.toLowerCase();
+  return sameCity ? 0 : null;
+}
+
+// For each of `ixpIds` where Cloudflare is present and a network compared
+// with `asn` is not, the nearest exchanges where both are.
+export async function estimateFallbacks(
+  asn: number,
+  ixpIds: number[],
+): Promise<FallbackPath[]> {
+  const networks = networksFor(asn).filter((n) => n.asn !== CLOUDFLARE_AS);
+  const [catalog, locations, byAsn] = await Promise.all([
+    fetchIxCatalog(),
+    // Without coordinates only same-city alternatives get a distance.
+    fetchIxLocations().catch((err) => {
+      console.warn("IXP locations unavailable:", err);
+      return new Map<number, IxLocation>();
+    }),
+    fetchAsnIxIdsBatch([CLOUDFLARE_AS, ...networks.map((n) => n.asn)]),
+  ]);
+  const cf = byAsn.get(CLOUDFLARE_AS)!;
+  const byId = new Map(catalog.map((r) => [r.id, r]));
+
+  const paths: FallbackPath[] = [];
+  for (const ixpId of ixpIds) {
+    const from = byId.get(ixpId);
+    if (!from || !cf.ixIds.has(ixpId)) continue;
+    for (const net of networks) {
+      const { ixIds, status } = byAsn.get(net.asn)!;
+      // Without membership data the network may well be at this IXP.
+      if (status === "unknown" || ixIds.has(ixpId)) continue;
+      const options = [...ixIds]
+        .filter((id) => cf.ixIds.has(id))
+        .flatMap((id) => {
+          const to = byId.get(id);
+          return to
+            ? [{
+              id,
+              name: to.name,
+              city: to.city,
+              country: to.country,
+              distanceKm: distanceKm(from, to, locations),
+            }]
+            : [];
+        })
+        .sort((a, b) =>
+          (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) ||
+          a.name.localeCompare(b.name)
+        )
+        .slice(0, OPTIONS_PER_PATH);
+      paths.push({ ixpId, asn: net.asn, name: net.name, options });
+    }
+  }
+  return paths;
+}
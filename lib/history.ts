@@ -0,0 +1,172 @@
+import { kv } from "./kv.ts";
+import type { CheckResult, VisibilityBucket } from "./types.ts";
+
+// A CheckResult without the prefix list, small enough to keep many of in KV.
+export interface Snapshot {
+  timestamp: number;
+  total: number;
+  v4: number;
+  v6: number;
+  avgVisibility: number;
+  minVisibility: number;
+  maxVisibility: number;
+  visibilityBuckets: VisibilityBucket[];
+  // Presence only; port details are left out to keep snapshots small.
+  ixps: {
+    id: number;
+    name: string;
+    country: string;
+    // Null when the network's PeeringDB data was unknown.
+    networks: { asn: number; name: string; present: boolean | null }[];
+  }[];
+  cfIxpsGlobal: number;
+}
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+// Retention tiers: every snapshot for 48h, then one per hour up to 30 days,
+// then one per day up to a year. Anything older is dropped.
+const RAW_RETENTION = 2 * DAY;
+const HOURLY_RETENTION = 30 * DAY;
+const DAILY_RETENTION = 365 * DAY;
+
+export const HISTORY_RANGES: Record<string, number> = {
+  "24h": DAY,
+  "7d": 7 * DAY,
+  "30d": 30 * DAY,
+  "1y": 365 * DAY,
+};
+
+export function toSnapshot(result: CheckResult, timestamp: number): Snapshot {
+  const { bgp } = result;
+  return {
+    timestamp,
+    total: bgp.total,
+    v4: bgp.v4,
+    v6: bgp.v6,
+    avgVisibility: bgp.avgVisibility,
+    minVisibility: bgp.minVisibility,
+    maxVisibility: bgp.maxVisibility,
+    visibilityBuckets: bgp.visibilityBuckets,
+    ixps: result.ixps.map((ixp) => ({
+      id: ixp.id,
+      name: ixp.name,
+      country: ixp.country,
+      networks: ixp.networks.map(({ asn, name, present, dataStatus }) => ({
+        asn,
+        name,
+        present: dataStatus === "unknown" ? null : present,
+      })),
+    })),
+    cfIxpsGlobal: result.cfIxpsGlobal,
+  };
+}
+
+export async function recordSnapshot(
+  result: CheckResult,
+  timestamp = Date.now(),
+): Promise<void> {
+  await kv.set(["history", timestamp], toSnapshot(result, timestamp), {
+    expireIn: DAILY_RETENTION,
+  });
+  await pruneSnapshots(timestamp);
+}
+
+// Downsample older snapshots by keeping only the first one in each hourly or
+// daily bucket. KV expiry takes care of snapshots past the daily tier.
+async function pruneSnapshots(now: number): Promise<void> {
+  const seen = new Set<string>();
+  const iter = kv.list<Snapshot>({
+    start: ["history", now - DAILY_RETENTION],
+    end: ["history", now - RAW_RETENTION],
+  });
+  for await (const entry of iter) {
+    const ts = entry.key[1] as number;
+    const bucket = now - ts > HOURLY_RETENTION
+      ? `d${Math.floor(ts / DAY)}`
+      : `h${Math.floor(ts / HOUR)}`;
+    if (seen.has(bucket)) {
+      await kv.delete(entry.key);
+    } else {
+      seen.add(bucket);
+    }
+  }
+}
+
+export async function listSnapshots(
+  from: number,
+  to: number,
+): Promise<Snapshot[]> {
+  const snapshots: Snapshot[] = [];
+  const iter = kv.list<Snapshot>({
+    start: ["history", from],
+    end: ["history", to + 1],
+  });
+  for await (const entry of iter) {
+    snapshots.push(entry.value);
+  }
+  return snapshots;
+}
+
+export interface HistorySeries {
+  timestamp: number[];
+  total: number[];
+  v4: number[];
+  v6: number[];
+  avgVisibility: number[];
+  minVisibility: number[];
+  maxVisibility: number[];
+  cfIxpsGlobal: number[];
+  buckets: { label: string; counts: number[] }[];
+  ixps: {
+    id: number;
+    name: string;
+    country: string;
+    networks: { asn: number; name: string; present: (boolean | null)[] }[];
+  }[];
+}
+
+// Turn a list of snapshots into one array per metric, aligned on `timestamp`.
+// Buckets and IXPs follow the layout of the most recent snapshot; a point
+// where a snapshot lacks that bucket, IXP or network is 0 / null.
+export function buildSeries(snapshots: Snapshot[]): HistorySeries {
+  const latest = snapshots[snapshots.length - 1];
+  const series: HistorySeries = {
+    timestamp: snapshots.map((s) => s.timestamp),
+    total: snapshots.map((s) => s.total),
+    v4: snapshots.map((s) => s.v4),
+    v6: snapshots.map((s) => s.v6),
+    avgVisibility: snapshots.map((s) => s.avgVisibility),
+    minVisibility: snapshots.map((s) => s.minVisibility),
+    maxVisibility: snapshots.map((s) => s.maxVisibility),
+    cfIxpsGlobal: snapshots.map((s) => s.cfIxpsGlobal),
+    buckets: [],
+    ixps: [],
+  };
+  if (!latest) return series;
+
+  series.buckets = latest.visibilityBuckets.map((b) => ({
+    label: b.label,
+    counts: snapshots.map((s) =>
+      s.visibilityBuckets.find((sb) => sb.label === b.label)?.count ?? 0
+    ),
+  }));
+
+  series.ixps = latest.ixps.map((ixp) => ({
+    id: ixp.id,
+    name: ixp.name,
+    country: ixp.country,
+    networks: ixp.networks.map((net) => ({
+      asn: net.asn,
+      name: net.name,
+      present: snapshots.map((s) =>
+        s.ixps
+          .find((si) => si.id === ixp.id)
+          ?.networks.find((sn) => sn.asn === net.asn)?.present ?? null
+      ),
+    })),
+  }));
+
+  return series;
+}
@@ -0,0 +1,162 @@
+// IPv4/IPv6 addresses as arrays of 32-bit words (1 for v4, 4 for v6), which
+// keeps bit arithmetic in plain numbers instead of bigints.
+
+export type IpFamily = "v4" | "v6";
+
+export interface ParsedPrefix {
+  family: IpFamily;
+  words: Uint32Array;
+  length: number;
+}
+
+export const FAMILY_BITS: Record<IpFamily, number> = { v4: 32, v6: 128 };
+
+function parseIpv4(text: string): number | null {
+  const parts = text.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function parseIpv6(text: string): Uint32Array | null {
+  // An embedded IPv4 tail (::ffff:1.2.3.4) stands in for the last two groups.
+  let v4Tail: number | null = null;
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".", lastColon)) {
+    v4Tail = parseIpv4(text.slice(lastColon + 1));
+    if (v4Tail === null) return null;
+    text = `${text.slice(0, lastColon)}:0:0`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] === "" ? [] : halves[0].split(":");
+  const tail = halves.length === 2 && halves[1] !== ""
+    ? halves[1].split(":")
+    : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups: number[] = [];
+  for (const g of [...head, ...Array(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(g)) return null;
+    groups.push(parseInt(g, 16));
+  }
+  if (v4Tail !== null) {
+    groups[6] = v4Tail >>> 16;
+    groups[7] = v4Tail & 0xffff;
+  }
+
+  const words = new Uint32Array(4);
+  for (let i = 0; i < 4; i++) {
+    words[i] = ((groups[i * 2] << 16) | groups[i * 2 + 1]) >>> 0;
+  }
+  return words;
+}
+
+// Parse "1.2.3.4", "2001:db8::1", "10.0.0.0/8" or "2001:db8::/32". A bare
+// address is treated as a host prefix (/32 or /128).
+export function parsePrefix(text: string): ParsedPrefix | null {
+  const slash = text.indexOf("/");
+  const addr = (slash === -1 ? text : text.slice(0, slash)).trim();
+  const family: IpFamily = addr.includes(":") ? "v6" : "v4";
+  const maxLength = FAMILY_BITS[family];
+
+  let length = maxLength;
+  if (slash !== -1) {
+    const lenText = text.slice(slash + 1).trim();
+    if (!/^\d{1,3}$/.test(lenText)) return null;
+    length = Number(lenText);
+    if (length > maxLength) return null;
+  }
+
+  let words: Uint32Array | null;
+  if (family === "v4") {
+    const v4 = parseIpv4(addr);
+    words = v4 === null ? null : Uint32Array.of(v4);
+  } else {
+    words = parseIpv6(addr);
+  }
+  if (!words) return null;
+
+  return { family, words: maskWords(words, length), length };
+}
+
+// Zero every bit past `length`.
+export function maskWords(words: Uint32Array, length: number): Uint32Array {
+  const masked = new Uint32Array(words.length);
+  for (let i = 0; i < words.length; i++) {
+    const bits = Math.min(Math.max(length - i * 32, 0), 32);
+    const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+    masked[i] = (words[i] & mask) >>> 0;
+  }
+  return masked;
+}
+
+export function bitAt(words: ArrayLike<number>, index: number): number {
+  return (words[index >>> 5] >>> (31 - (index & 31))) & 1;
+}
+
+export function formatAddress(family: IpFamily, words: ArrayLike<number>) {
+  if (family === "v4") {
+    const v = words[0];
+    return `${v >>> 24}.${(v >>> 16) & 255}.${(v >>> 8) & 255}.${v & 255}`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    groups.push(words[i] >>> 16, words[i] & 0xffff);
+  }
+  // RFC 5952: compress the longest run of two or more zero groups.
+  let bestStart = -1;
+  let bestLen = 1;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${
+    hex.slice(bestStart + bestLen).join(":")
+  }`;
+}
+
+export function formatPrefix(prefix: ParsedPrefix): string {
+  return `${formatAddress(prefix.family, prefix.words)}/${prefix.length}`;
+}
+
+// Order by address, then shorter (less specific) prefixes first. Only
+// meaningful for prefixes of the same family.
+export function comparePrefixes(a: ParsedPrefix, b: ParsedPrefix): number {
+  for (let i = 0; i < a.words.length; i++) {
+    if (a.words[i] !== b.words[i]) return a.words[i] < b.words[i] ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+// Whether `inner` lies within `outer` (or equals it).
+export function prefixContains(
+  outer: ParsedPrefix,
+  inner: ParsedPrefix,
+): boolean {
+  if (outer.family !== inner.family || outer.length > inner.length) {
+    return false;
+  }
+  const masked = maskWords(inner.words, outer.length);
+  return masked.every((w, i) => w === outer.words[i]);
+}
@@ -0,0 +1,192 @@
+import { type BgpTable, entriesForAsn } from "./bgp.ts";
+import type { CacheStatus } from "./caches.ts";
+import { IRR_DUMP } from "./config.ts";
+import { formatPrefix, parsePrefix } from "./ip.ts";
+import { LineStream } from "./jsonl.ts";
+import { recordSourceError, recordSourceSuccess } from "./sources.ts";
+
+// Route objects loaded from the dump, keyed by normalized prefix. Only the
+// objects that matter for the watched ASNs are kept: those they originate,
+// and those for prefixes they announce.
+interface RouteObjects {
+  byPrefix: Map<string, number[]>;
+  // ASNs whose route objects were all kept.
+  origins: Set<number>;
+  // Route objects in the whole dump.
+  total: number;
+  loadedAt: number;
+}
+
+let irrCache: RouteObjects | null = null;
+let irrLoad: Promise<RouteObjects> | null = null;
+const IRR_CACHE_TTL = 6 * 3600_000; // 6h
+let irrExpiredAt = 0;
+
+function routeObjectsExpired(now: number): boolean {
+  return !irrCache || now - irrCache.loadedAt > IRR_CACHE_TTL ||
+    irrCache.loadedAt <= irrExpiredAt;
+}
+
+function normalize(text: string): string | null {
+  const prefix = parsePrefix(text);
+  return prefix && formatPrefix(prefix);
+}
+
+// Stream an RPSL dump (plain or .gz) and collect route/route6 objects. Only
+// `origin:` lines are needed besides the class line, and only route objects
+// have an origin, so objects are not otherwise delimited.
+async function loadRouteObjects(
+  origins: Set<number>,
+  announced: Set<string>,
+  now: number,
+): Promise<RouteObjects> {
+  const file = await Deno.open(IRR_DUMP);
+  const bytes = IRR_DUMP.endsWith(".gz")
+    ? file.readable.pipeThrough(new DecompressionStream("gzip"))
+    : file.readable;
+  const lines = bytes
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new LineStream());
+
+  const byPrefix = new Map<string, number[]>();
+  let total = 0;
+  let current: string | null = null;
+  for await (const line of lines) {
+    const match = /^(route6?|origin):\s*(\S+)/i.exec(line);
+    if (!match) continue;
+    const [, attribute, value] = match;
+    if (attribute.toLowerCase() !== "origin") {
+      current = normalize(value);
+      continue;
+    }
+    if (current === null) continue;
+    const origin = Number(value.replace(/^AS/i, ""));
+    if (Number.isInteger(origin)) {
+      total++;
+      if (origins.has(origin) || announced.has(current)) {
+        const list = byPrefix.get(current);
+        if (!list) byPrefix.set(current, [origin]);
+        else if (!list.includes(origin)) list.push(origin);
+      }
+    }
+    current = null;
+  }
+
+  if (total === 0) throw new Error(`${IRR_DUMP} has no route objects`);
+  return { byPrefix, origins, total, loadedAt: now };
+}
+
+async function refreshRouteObjects(table: BgpTable): Promise<RouteObjects> {
+  const now = Date.now();
+  const start = performance.now();
+  const announced = new Set<string>();
+  for (const entries of table.byAsn.values()) {
+    for (const e of entries) {
+      const prefix = normalize(e.CIDR);
+      if (prefix) announced.add(prefix);
+    }
+  }
+  try {
+    irrCache = await loadRouteObjects(new Set(table.watched), announced, now);
+    await recordSourceSuccess("irr", performance.now() - start, now, {
+      routeObjects: irrCache.total,
+    });
+    return irrCache;
+  } catch (err) {
+    await recordSourceError("irr", err, performance.now() - start);
+    if (irrCache) {
+      console.warn("IRR dump reload failed, using loaded objects:", err);
+      return irrCache;
+    }
+    throw err;
+  }
+}
+
+// Make the next checkIrr reload the dump, keeping the loaded objects in case
+// that fails.
+export function expireRouteObjects(now = Date.now()): void {
+  irrExpiredAt = now;
+}
+
+export function irrCacheStatus(now = Date.now()): CacheStatus {
+  return {
+    name: "irr",
+    storage: "memory",
+    ttlMs: IRR_CACHE_TTL,
+    ageMs: irrCache && now - irrCache.loadedAt,
+    expired: routeObjectsExpired(now),
+    entries: irrCache?.total ?? 0,
+    details: irrCache ? { keptPrefixes: irrCache.byPrefix.size } : undefined,
+  };
+}
+
+export interface OriginMismatch {
+  prefix: string;
+  irrOrigins: number[];
+}
+
+export interface IrrReport {
+  asn: number;
+  announced: number;
+  // Announced prefixes with a route object for this origin.
+  registered: number;
+  // Announced prefixes whose route objects all name another origin.
+  mismatched: OriginMismatch[];
+  // Announced prefixes without any route object.
+  missing: string[];
+  // Route objects for this origin that are not announced by it.
+  unannounced: string[];
+  routeObjects: number;
+  loadedAt: number;
+}
+
+// Compare the prefixes `asn` announces in `table` with the IRR dump. Null
+// when no dump is configured.
+export async function checkIrr(
+  table: BgpTable,
+  asn: number,
+): Promise<IrrReport | null> {
+  if (!IRR_DUMP) return null;
+  let objects = irrCache;
+  if (
+    !objects || !objects.origins.has(asn) || routeObjectsExpired(Date.now())
+  ) {
+    irrLoad ??= refreshRouteObjects(table).finally(() => {
+      irrLoad = null;
+    });
+    objects = await irrLoad;
+  }
+
+  const announced = new Set<string>();
+  const mismatched: OriginMismatch[] = [];
+  const missing: string[] = [];
+  let registered = 0;
+  for (const e of entriesForAsn(table, asn)) {
+    const prefix = normalize(e.CIDR);
+    if (!prefix || announced.has(prefix)) continue;
+    announced.add(prefix);
+    const irrOrigins = objects.byPrefix.get(prefix);
+    if (!irrOrigins) missing.push(prefix);
+    else if (irrOrigins.includes(asn)) registered++;
+    else mismatched.push({ prefix, irrOrigins });
+  }
+
+  const unannounced: string[] = [];
+  for (const [prefix, irrOrigins] of objects.byPrefix) {
+    if (irrOrigins.includes(asn) && !announced.has(prefix)) {
+      unannounced.push(prefix);
+    }
+  }
+
+  const byPrefix = (a: string, b: string) => a.localeCompare(b);
+  return {
+    asn,
+    announced: announced.size,
+    registered,
+    mismatched: mismatched.sort((a, b) => byPrefix(a.prefix, b.prefix)),
+    missing: missing.sort(byPrefix),
+    unannounced: unannounced.sort(byPrefix),
+    routeObjects: objects.total,
+    loadedAt: objects.loadedAt,
+  };
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import type { BgpEntry, BgpTable } from "./bgp.ts";
+import { PrefixTrie } from "./trie.ts";
+
+// The dump is read from the environment when the module loads, hence the
+// dynamic import.
+Deno.env.set(
+  "IRR_DUMP",
+  new URL("../fixtures/routes.db", import.meta.url).pathname,
+);
+const { checkIrr, irrCacheStatus } = await import("./irr.ts");
+
+function table(entries: BgpEntry[]): BgpTable {
+  const byAsn = new Map<number, BgpEntry[]>();
+  for (const e of entries) byAsn.set(e.ASN, [...byAsn.get(e.ASN) ?? [], e]);
+  return {
+    byAsn,
+    watched: new Set(byAsn.keys()),
+    routes: { v4: new PrefixTrie("v4"), v6: new PrefixTrie("v6") },
+    peers: null,
+    stats: {
+      entries: entries.length,
+      v4: 0,
+      v6: 0,
+      originAsns: 0,
+      parseErrors: 0,
+    },
+    fetchedAt: Date.now(),
+  };
+}
+
+Deno.test("checkIrr compares announcements with route objects", async () => {
+  const bgp = table([
+    { CIDR: "1.1.1.0/24", ASN: 13335, Hits: 3000 },
+    { CIDR: "188.114.96.0/20", ASN: 13335, Hits: 800 },
+    { CIDR: "2606:4700:0::/32", ASN: 13335, Hits: 2900 },
+    { CIDR: "104.16.0.0/13", ASN: 13335, Hits: 2800 },
+  ]);
+  const report = await checkIrr(bgp, 13335);
+  assert.ok(report);
+  assert.equal(report.routeObjects, 5);
+  assert.equal(report.announced, 4);
+  // The IPv6 prefix matches once both sides are normalized.
+  assert.equal(report.registered, 2);
+  assert.deepEqual(report.mismatched, [
+    { prefix: "188.114.96.0/20", irrOrigins: [64496] },
+  ]);
+  assert.deepEqual(report.missing, ["104.16.0.0/13"]);
+  assert.deepEqual(report.unannounced, ["198.41.0.0/16"]);
+
+  // Objects for origins nobody watches or announces are not kept.
+  assert.equal(irrCacheStatus().details?.keptPrefixes, 4);
+
+  // Watched origins are answered from the loaded dump.
+  const again = await checkIrr(bgp, 13335);
+  assert.equal(again?.loadedAt, report.loadedAt);
+});
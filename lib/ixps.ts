@@ -0,0 +1,309 @@
+import type { CacheStatus } from "./caches.ts";
+import { IXP_REGION, REGIONAL_IXPS, type RegionalIxp } from "./config.ts";
+import { ixpMembership } from "./providers.ts";
+
+// PeeringDB `region_continent` values, by the id used in query strings.
+export const REGIONS: Record<string, string> = {
+  "europe": "Europe",
+  "north-america": "North America",
+  "south-america": "South America",
+  "asia-pacific": "Asia Pacific",
+  "middle-east": "Middle East",
+  "africa": "Africa",
+  "australia": "Australia",
+};
+
+// Region id of the built-in REGIONAL_IXPS list.
+export const CURATED_REGION = "curated";
+
+// IXPs shown per region or country: the ones with the most networks.
+const IXPS_PER_SELECTION = 15;
+const MAX_SELECTED_IDS = 30;
+
+export interface IxRecord {
+  id: number;
+  name: string;
+  city: string;
+  country: string;
+  region: string;
+  netCount: number;
+}
+
+interface IxEntry {
+  id: number;
+  name?: string;
+  city?: string;
+  country?: string;
+  region_continent?: string;
+  net_count?: number;
+  status?: string;
+}
+
+let catalogCache: { records: IxRecord[]; fetchedAt: number } | null = null;
+let catalogLoad: Promise<IxRecord[]> | null = null;
+const CATALOG_CACHE_TTL = 86400_000; // 24h
+// Catalog and locations loaded before this are treated as expired.
+let catalogExpiredAt = 0;
+
+function isFresh<T extends { fetchedAt: number }>(
+  cache: T | null,
+  now: number,
+): cache is T {
+  return cache !== null && now - cache.fetchedAt < CATALOG_CACHE_TTL &&
+    cache.fetchedAt > catalogExpiredAt;
+}
+
+async function loadCatalog(): Promise<IxRecord[]> {
+  try {
+    const entries = await ixpMembership.query<IxEntry>("ix", {});
+    const records = entries
+      .filter((e) => e.name && e.country && (e.status ?? "ok") === "ok")
+      .map((e) => ({
+        id: e.id,
+        name: e.name!,
+        city: e.city ?? "",
+        country: e.country!,
+        region: e.region_continent ?? "",
+        netCount: e.net_count ?? 0,
+      }));
+    if (records.length === 0) throw new Error("PeeringDB ix list is empty");
+    catalogCache = { records, fetchedAt: Date.now() };
+    return records;
+  } catch (err) {
+    if (catalogCache) {
+      console.warn("IXP catalog reload failed, using loaded list:", err);
+      return catalogCache.records;
+    }
+    throw err;
+  }
+}
+
+// Every active exchange in PeeringDB. Kept in memory: the list is well over
+// the KV value limit and changes slowly.
+export function fetchIxCatalog(): Promise<IxRecord[]> {
+  if (isFresh(catalogCache, Date.now())) {
+    return Promise.resolve(catalogCache.records);
+  }
+  catalogLoad ??= loadCatalog().finally(() => {
+    catalogLoad = null;
+  });
+  return catalogLoad;
+}
+
+// Which IXPs to compare networks at: explicit PeeringDB ids, the busiest
+// exchanges of one country, or those of a region. The curated region is the
+// built-in list rather than a catalog lookup.
+export interface IxpSelection {
+  region: string;
+  country: string | null;
+  ids: number[] | null;
+}
+
+export const DEFAULT_SELECTION: IxpSelection = {
+  region: IXP_REGION,
+  country: null,
+  ids: null,
+};
+
+export function isDefaultSelection(selection: IxpSelection): boolean {
+  return selection.ids === null && selection.country === null &&
+    selection.region === DEFAULT_SELECTION.region;
+}
+
+// Parse `region`, `country` and `ids` query parameters. Returns an error
+// message when one is invalid.
+export function parseIxpSelection(
+  params: URLSearchParams,
+): IxpSelection | string {
+  const region = params.get("region") || DEFAULT_SELECTION.region;
+  if (region !== CURATED_REGION && !(region in REGIONS)) {
+    return `Unknown region "${region}", expected one of ${
+      [CURATED_REGION, ...Object.keys(REGIONS)].join(", ")
+    }`;
+  }
+
+  const countryParam = params.get("country");
+  const country = countryParam ? countryParam.toUpperCase() : null;
+  if (country !== null && !/^[A-Z]{2}$/.test(country)) {
+    return `Invalid country code "${countryParam}"`;
+  }
+
+  const idsParam = params.get("ids");
+  let ids: number[] | null = null;
+  if (idsParam) {
+    ids = [];
+    for (const part of idsParam.split(",")) {
+      const id = Number(part.trim());
+      if (!Number.isInteger(id) || id <= 0) return `Invalid IXP id "${part}"`;
+      if (!ids.includes(id)) ids.push(id);
+    }
+    if (ids.length > MAX_SELECTED_IDS) {
+      return `At most ${MAX_SELECTED_IDS} IXP ids can be selected`;
+    }
+  }
+
+  return { region, country, ids };
+}
+
+function byNetCount(records: IxRecord[]): IxRecord[] {
+  return [...records]
+    .sort((a, b) => b.netCount - a.netCount)
+    .slice(0, IXPS_PER_SELECTION)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Resolve a selection against the catalog. The default region falls back to
+// the built-in list when PeeringDB cannot be reached.
+export async function selectIxps(
+  selection: IxpSelection,
+): Promise<RegionalIxp[]> {
+  if (
+    selection.region === CURATED_REGION && !selection.ids &&
+    !selection.country
+  ) {
+    return REGIONAL_IXPS;
+  }
+
+  let catalog: IxRecord[];
+  try {
+    catalog = await fetchIxCatalog();
+  } catch (err) {
+    if (!isDefaultSelection(selection)) throw err;
+    console.warn("IXP catalog unavailable, using built-in list:", err);
+    return REGIONAL_IXPS;
+  }
+
+  let records: IxRecord[];
+  if (selection.ids) {
+    const byId = new Map(catalog.map((r) => [r.id, r]));
+    records = selection.ids.flatMap((id) => byId.get(id) ?? []);
+  } else if (selection.country) {
+    records = byNetCount(
+      catalog.filter((r) => r.country === selection.country),
+    );
+  } else {
+    const continent = REGIONS[selection.region];
+    if (!continent) throw new Error(`Unknown region "${selection.region}"`);
+    records = byNetCount(catalog.filter((r) => r.region === continent));
+  }
+  return records.map((r) => ({ id: r.id, name: r.name, country: r.country }));
+}
+
+// Country codes with at least one IXP in `region`, for narrowing it down.
+export async function listRegionCountries(region: string): Promise<string[]> {
+  if (region === CURATED_REGION) {
+    return [...new Set(REGIONAL_IXPS.map((ixp) => ixp.country))].sort();
+  }
+  const continent = REGIONS[region];
+  const catalog = await fetchIxCatalog();
+  return [
+    ...new Set(
+      catalog.filter((r) => r.region === continent).map((r) => r.country),
+    ),
+  ].sort();
+}
+
+// --- Locations ---
+
+export interface IxLocation {
+  latitude: number;
+  longitude: number;
+}
+
+interface FacEntry {
+  id: number;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+interface IxfacEntry {
+  ix_id: number;
+  fac_id: number;
+}
+
+let locationCache:
+  | { byIx: Map<number, IxLocation>; fetchedAt: number }
+  | null = null;
+let locationLoad: Promise<Map<number, IxLocation>> | null = null;
+
+// An exchange has no coordinates of its own in PeeringDB; use the centroid of
+// the facilities it is available in, which all sit in one metro area.
+async function loadLocations(): Promise<Map<number, IxLocation>> {
+  try {
+    const [facs, ixfacs] = await Promise.all([
+      ixpMembership.query<FacEntry>("fac", {}),
+      ixpMembership.query<IxfacEntry>("ixfac", {}),
+    ]);
+    const facLocations = new Map<number, IxLocation>();
+    for (const f of facs) {
+      if (typeof f.latitude === "number" && typeof f.longitude === "number") {
+        facLocations.set(f.id, {
+          latitude: f.latitude,
+          longitude: f.longitude,
+        });
+      }
+    }
+    const sums = new Map<number, { lat: number; lon: number; n: number }>();
+    for (const { ix_id, fac_id } of ixfacs) {
+      const location = facLocations.get(fac_id);
+      if (!location) continue;
+      const sum = sums.get(ix_id) ?? { lat: 0, lon: 0, n: 0 };
+      sum.lat += location.latitude;
+      sum.lon += location.longitude;
+      sum.n++;
+      sums.set(ix_id, sum);
+    }
+    const byIx = new Map<number, IxLocation>();
+    for (const [id, { lat, lon, n }] of sums) {
+      byIx.set(id, { latitude: lat / n, longitude: lon / n });
+    }
+    locationCache = { byIx, fetchedAt: Date.now() };
+    return byIx;
+  } catch (err) {
+    if (locationCache) {
+      console.warn("IXP locations reload failed, using loaded ones:", err);
+      return locationCache.byIx;
+    }
+    throw err;
+  }
+}
+
+// Coordinates per IXP id, for those with at least one geocoded facility.
+export function fetchIxLocations(): Promise<Map<number, IxLocation>> {
+  if (isFresh(locationCache, Date.now())) {
+    return Promise.resolve(locationCache.byIx);
+  }
+  locationLoad ??= loadLocations().finally(() => {
+    locationLoad = null;
+  });
+  return locationLoad;
+}
+
+// --- Cache control ---
+
+// Make the next lookups load the catalog and locations again, keeping the
+// loaded ones in case that fails.
+export function expireIxCatalog(now = Date.now()): void {
+  catalogExpiredAt = now;
+}
+
+export function ixCatalogCacheStatus(now = Date.now()): CacheStatus[] {
+  return [
+    {
+      name: "ixp-catalog",
+      storage: "memory",
+      ttlMs: CATALOG_CACHE_TTL,
+      ageMs: catalogCache && now - catalogCache.fetchedAt,
+      expired: !isFresh(catalogCache, now),
+      entries: catalogCache?.records.length ?? 0,
+    },
+    {
+      name: "ixp-locations",
+      storage: "memory",
+      ttlMs: CATALOG_CACHE_TTL,
+      ageMs: locationCache && now - locationCache.fetchedAt,
+      expired: !isFresh(locationCache, now),
+      entries: locationCache?.byIx.size ?? 0,
+    },
+  ];
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import type { IxpSelection } from "./ixps.ts";
+
+// The catalog is read from the provider chosen when the modules load,
+// hence the dynamic import.
+Deno.env.set(
+  "IXP_SOURCE",
+  `file:${new URL("../fixtures/peeringdb.json", import.meta.url).pathname}`,
+);
+const { REGIONAL_IXPS } = await import("./config.ts");
+const {
+  CURATED_REGION,
+  DEFAULT_SELECTION,
+  listRegionCountries,
+  parseIxpSelection,
+  selectIxps,
+} = await import("./ixps.ts");
+
+const parse = (text: string) => parseIxpSelection(new URLSearchParams(text));
+
+Deno.test("the curated list is the default selection", async () => {
+  assert.deepEqual(parse(""), DEFAULT_SELECTION);
+  assert.equal(DEFAULT_SELECTION.region, CURATED_REGION);
+  assert.equal(await selectIxps(DEFAULT_SELECTION), REGIONAL_IXPS);
+  assert.deepEqual(await listRegionCountries(CURATED_REGION), [
+    "AT",
+    "BE",
+    "CH",
+    "DE",
+    "ES",
+    "FR",
+    "GB",
+    "IT",
+    "LU",
+    "NL",
+    "SE",
+  ]);
+});
+
+Deno.test("parseIxpSelection validates regions, countries and ids", () => {
+  assert.match(parse("region=mars") as string, /^Unknown region "mars"/);
+  assert.equal(parse("country=NLD"), 'Invalid country code "NLD"');
+  assert.equal(parse("ids=26,x"), 'Invalid IXP id "x"');
+  assert.equal(
+    parse(`ids=${Array.from({ length: 31 }, (_, i) => i + 1).join(",")}`),
+    "At most 30 IXP ids can be selected",
+  );
+  assert.deepEqual(parse("region=europe&country=de&ids=26, 31,26"), {
+    region: "europe",
+    country: "DE",
+    ids: [26, 31],
+  });
+});
+
+Deno.test("catalog regions and countries are opt-in", async () => {
+  const names = async (text: string) =>
+    (await selectIxps(parse(text) as IxpSelection)).map((ixp) => ixp.name);
+  assert.deepEqual(await names("region=north-america"), ["Equinix Ashburn"]);
+  assert.deepEqual(await names("region=europe&country=DE"), [
+    "DE-CIX FRA",
+    "DE-CIX HAM",
+    "DE-CIX MUC",
+  ]);
+  // Ids keep their order; unknown ones are dropped.
+  assert.deepEqual(await names("ids=1,26,999"), ["Equinix Ashburn", "AMS-IX"]);
+});
@@ -0,0 +1,124 @@
+// Splits a text stream into lines without ever holding more than one partial
+// line in memory. Trailing "\r" is stripped; empty lines are dropped.
+export class LineStream extends TransformStream<string, string> {
+  constructor() {
+    let buffer = "";
+    super({
+      transform(chunk, controller) {
+        buffer += chunk;
+        let start = 0;
+        let end: number;
+        while ((end = buffer.indexOf("\n", start)) !== -1) {
+          const line = buffer.slice(start, end).trim();
+          if (line) controller.enqueue(line);
+          start = end + 1;
+        }
+        buffer = buffer.slice(start);
+      },
+      flush(controller) {
+        const line = buffer.trim();
+        if (line) controller.enqueue(line);
+      },
+    });
+  }
+}
+
+// Decode a byte stream of JSON Lines, handing each parsed value to `onValue`.
+// Returns the number of lines that were not valid JSON.
+export async function readJsonLines(
+  body: ReadableStream<BufferSource>,
+  onValue: (value: unknown) => void,
+): Promise<number> {
+  let parseErrors = 0;
+  const lines = body
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new LineStream());
+  for await (const line of lines) {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      parseErrors++;
+      continue;
+    }
+    onValue(value);
+  }
+  return parseErrors;
+}
+
+// Stream the elements of the array under `key` in a top-level JSON object,
+// e.g. the "roas" of { "metadata": {...}, "roas": [{...}, ...] }, handing
+// each parsed element to `onValue`. Only one element is held in memory at a
+// time. Returns false when the object has no such array.
+export async function readJsonArray(
+  body: ReadableStream<BufferSource>,
+  key: string,
+  onValue: (value: unknown) => void,
+): Promise<boolean> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Top-level keys, to find the one whose value is the array.
+  let text = "";
+  let lastKey: string | null = null;
+  let afterColon = false;
+  // Inside the array: the element read so far, and where it continues in
+  // the current chunk.
+  let inArray = false;
+  let element = "";
+
+  const emit = (raw: string) => {
+    const trimmed = raw.trim();
+    if (trimmed) onValue(JSON.parse(trimmed));
+  };
+
+  for await (const chunk of body.pipeThrough(new TextDecoderStream())) {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === "\\") escaped = true;
+        else if (c === '"') {
+          inString = false;
+          if (depth === 1 && !inArray) lastKey = text;
+          continue;
+        }
+        if (depth === 1 && !inArray) text += c;
+        continue;
+      }
+
+      if (depth === 1 && !inArray && c.trim()) {
+        if (c === ":") {
+          afterColon = true;
+          continue;
+        }
+        const opensArray = c === "[" && afterColon && lastKey === key;
+        afterColon = false;
+        if (opensArray) {
+          inArray = true;
+          depth++;
+          start = i + 1;
+          continue;
+        }
+      }
+
+      if (c === '"') {
+        inString = true;
+        text = "";
+      } else if (c === "{" || c === "[") {
+        depth++;
+      } else if (inArray && depth === 2 && (c === "," || c === "]")) {
+        emit(element + chunk.slice(start, i));
+        element = "";
+        start = i + 1;
+        if (c === "]") return true;
+      } else if (c === "}" || c === "]") {
+        depth--;
+      }
+    }
+    if (inArray) element += chunk.slice(start);
+  }
+  if (inArray) throw new SyntaxError(`Unterminated "${key}" array`);
+  return false;
+}
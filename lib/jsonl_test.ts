@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { LineStream, readJsonArray, readJsonLines } from "./jsonl.ts";
+
+function stream(text: string, size = 5): ReadableStream<BufferSource> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset += size));
+    },
+  });
+}
+
+Deno.test("readJsonLines parses lines split across chunks", async () => {
+  const values: unknown[] = [];
+  const invalid = await readJsonLines(
+    stream('{"a": 1}\r\n\n[2, 3]\nnot json\n"é"', 3),
+    (v) => values.push(v),
+  );
+  assert.equal(invalid, 1);
+  assert.deepEqual(values, [{ a: 1 }, [2, 3], "é"]);
+});
+
+Deno.test("LineStream trims lines and drops empty ones", async () => {
+  const lines = await Array.fromAsync(
+    ReadableStream.from(["a\n", "\n b", "c \r\n", "d"]).pipeThrough(
+      new LineStream(),
+    ),
+  );
+  assert.deepEqual(lines, ["a", "bc", "d"]);
+});
+
+Deno.test("readJsonArray streams only the requested array", async () => {
+  const values: unknown[] = [];
+  const found = await readJsonArray(
+    stream(
+      '{"roasCount": 2, "meta": {"roas": [0], "note": "\\"roas\\": [9]"},' +
+        ' "roas" : [ {"a": [1, {"b": "],"}]}, 2 ,"x\\"y" ], "aspas": [3]}',
+      3,
+    ),
+    "roas",
+    (v) => values.push(v),
+  );
+  assert.equal(found, true);
+  assert.deepEqual(values, [{ a: [1, { b: "]," }] }, 2, 'x"y']);
+
+  assert.equal(
+    await readJsonArray(stream('{"aspas": []}'), "roas", () => {}),
+    false,
+  );
+  assert.equal(
+    await readJsonArray(stream('{"roas": []}'), "roas", () => {}),
+    true,
+  );
+  await assert.rejects(
+    readJsonArray(stream('{"roas": [{"asn": 1}, {"asn"'), "roas", () => {}),
+    SyntaxError,
+  );
+});
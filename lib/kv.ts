@@ -0,0 +1,3 @@
+// Shared Deno KV handle. Every module persisting state goes through this one
+// connection instead of opening its own.
+export const kv = await Deno.openKv();
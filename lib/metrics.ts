@@ -0,0 +1,271 @@
+import type { SourceName, SourceReport } from "./sources.ts";
+import type { StoredResult } from "./refresh.ts";
+
+// --- Cache counters ---
+
+// Caches whose hit ratio is exported. Counters live in memory, so they reset
+// when the process restarts, which Prometheus handles for counters.
+export type CacheName = "result" | "bgp" | "peeringdb";
+
+const cacheLookups: Record<CacheName, { hits: number; misses: number }> = {
+  result: { hits: 0, misses: 0 },
+  bgp: { hits: 0, misses: 0 },
+  peeringdb: { hits: 0, misses: 0 },
+};
+
+export function recordCacheLookup(cache: CacheName, hit: boolean) {
+  if (hit) cacheLookups[cache].hits++;
+  else cacheLookups[cache].misses++;
+}
+
+// --- Exposition format ---
+
+type Labels = Record<string, string | number>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(
+    /\n/g,
+    "\\n",
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) =>
+    `${k}="${escapeLabel(String(v))}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Collects samples grouped by metric so each family gets one HELP/TYPE header.
+class MetricWriter {
+  private families = new Map<
+    string,
+    { help: string; type: string; samples: string[] }
+  >();
+
+  add(
+    name: string,
+    type: "gauge" | "counter",
+    help: string,
+    value: number,
+    labels: Labels = {},
+  ) {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { help, type, samples: [] };
+      this.families.set(name, family);
+    }
+    family.samples.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+
+  toString(): string {
+    const lines: string[] = [];
+    for (const [name, family] of this.families) {
+      lines.push(`# HELP ${name} ${family.help}`);
+      lines.push(`# TYPE ${name} ${family.type}`);
+      lines.push(...family.samples);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+// Render the latest result per origin AS, source status and cache counters in
+// the Prometheus text exposition format (version 0.0.4).
+export function renderMetrics(
+  results: StoredResult[],
+  sources: Record<SourceName, SourceReport | null>,
+  now = Date.now(),
+): string {
+  const m = new MetricWriter();
+
+  for (const { result, generatedAt } of results) {
+    const asn = { asn: result.asn };
+    const { bgp } = result;
+    m.add(
+      "network_monitor_result_age_seconds",
+      "gauge",
+      "Seconds since the result was computed.",
+      (now - generatedAt) / 1000,
+      asn,
+    );
+    m.add(
+      "network_monitor_prefixes",
+      "gauge",
+      "Prefixes originated by the AS.",
+      bgp.v4,
+      { ...asn, family: "v4" },
+    );
+    m.add(
+      "network_monitor_prefixes",
+      "gauge",
+      "Prefixes originated by the AS.",
+      bgp.v6,
+      { ...asn, family: "v6" },
+    );
+    for (
+      const [stat, value] of [
+        ["avg", bgp.avgVisibility],
+        ["min", bgp.minVisibility],
+        ["max", bgp.maxVisibility],
+      ] as const
+    ) {
+      m.add(
+        "network_monitor_visibility_peers",
+        "gauge",
+        "Number of bgp.tools peers seeing the AS's prefixes.",
+        value,
+        { ...asn, stat },
+      );
+    }
+    for (const bucket of bgp.visibilityBuckets) {
+      m.add(
+        "network_monitor_visibility_bucket_prefixes",
+        "gauge",
+        "Prefixes per visibility bucket.",
+        bucket.count,
+        { ...asn, bucket: bucket.label, min: bucket.min },
+      );
+    }
+    if (bgp.addressSpace) {
+      m.add(
+        "network_monitor_ipv4_addresses",
+        "gauge",
+        "IPv4 addresses covered by the AS's announcements.",
+        bgp.addressSpace.v4Addresses,
+        asn,
+      );
+      m.add(
+        "network_monitor_ipv6_slash48s",
+        "gauge",
+        "IPv6 /48s covered by the AS's announcements.",
+        bgp.addressSpace.v6Slash48s,
+        asn,
+      );
+    }
+    if (bgp.rpki) {
+      for (
+        const [status, value] of [
+          ["valid", bgp.rpki.valid],
+          ["invalid", bgp.rpki.invalid],
+          ["not-found", bgp.rpki.notFound],
+        ] as const
+      ) {
+        m.add(
+          "network_monitor_rpki_prefixes",
+          "gauge",
+          "Prefixes per RPKI origin validation state.",
+          value,
+          { ...asn, status },
+        );
+      }
+    }
+    m.add(
+      "network_monitor_ixps_global",
+      "gauge",
+      "IXPs the AS is present at worldwide, per PeeringDB.",
+      result.ixpsGlobal,
+      asn,
+    );
+    m.add(
+      "network_monitor_cf_ixps_global",
+      "gauge",
+      "IXPs Cloudflare is present at worldwide, per PeeringDB.",
+      result.cfIxpsGlobal,
+      asn,
+    );
+    for (const ixp of result.ixps) {
+      for (const net of ixp.networks) {
+        const labels = {
+          ...asn,
+          ixp_id: ixp.id,
+          ixp: ixp.name,
+          country: ixp.country,
+          network_asn: net.asn,
+          network: net.name,
+        };
+        // No sample rather than a false 0 when PeeringDB data is missing.
+        if (net.dataStatus !== "unknown") {
+          m.add(
+            "network_monitor_ixp_network_present",
+            "gauge",
+            "1 if the network is present at the IXP, 0 otherwise.",
+            net.present ? 1 : 0,
+            labels,
+          );
+        }
+        m.add(
+          "network_monitor_ixp_network_speed_mbps",
+          "gauge",
+          "Total port speed of the network at the IXP in Mbps.",
+          net.totalSpeed,
+          labels,
+        );
+      }
+    }
+  }
+
+  for (const [source, report] of Object.entries(sources)) {
+    if (!report) continue;
+    const labels = { source };
+    m.add(
+      "network_monitor_source_fetch_duration_seconds",
+      "gauge",
+      "Duration of the last fetch attempt.",
+      report.durationMs / 1000,
+      labels,
+    );
+    if (report.ageMs !== null) {
+      m.add(
+        "network_monitor_source_age_seconds",
+        "gauge",
+        "Seconds since the last successful fetch.",
+        report.ageMs / 1000,
+        labels,
+      );
+    }
+    m.add(
+      "network_monitor_source_errors_total",
+      "counter",
+      "Failed fetches from the source.",
+      report.errors ?? 0,
+      labels,
+    );
+    m.add(
+      "network_monitor_source_up",
+      "gauge",
+      "1 if the last fetch attempt succeeded.",
+      report.lastSuccess !== null &&
+        (report.lastErrorAt === null || report.lastSuccess > report.lastErrorAt)
+        ? 1
+        : 0,
+      labels,
+    );
+  }
+
+  for (const [cache, { hits, misses }] of Object.entries(cacheLookups)) {
+    const labels = { cache };
+    m.add(
+      "network_monitor_cache_hits_total",
+      "counter",
+      "Lookups answered from the cache.",
+      hits,
+      labels,
+    );
+    m.add(
+      "network_monitor_cache_misses_total",
+      "counter",
+      "Lookups that had to go upstream.",
+      misses,
+      labels,
+    );
+    m.add(
+      "network_monitor_cache_hit_ratio",
+      "gauge",
+      "Hits over all lookups since start, 0 before the first lookup.",
+      hits + misses > 0 ? hits / (hits + misses) : 0,
+      labels,
+    );
+  }
+
+  return m.toString();
+}
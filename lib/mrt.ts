@@ -0,0 +1,252 @@
+import { formatAddress, formatPrefix, type IpFamily } from "./ip.ts";
+
+// MRT (RFC 6396) as written by RouteViews and RIPE RIS collectors. Only the
+// TABLE_DUMP_V2 RIB records are read; update dumps and the legacy TABLE_DUMP
+// format are skipped.
+
+const MRT_HEADER_LENGTH = 12;
+const TABLE_DUMP_V2 = 13;
+
+const PEER_INDEX_TABLE = 1;
+const RIB_IPV4_UNICAST = 2;
+const RIB_IPV6_UNICAST = 4;
+// RFC 8050 variants with a path identifier in every RIB entry.
+const RIB_IPV4_UNICAST_ADDPATH = 8;
+const RIB_IPV6_UNICAST_ADDPATH = 10;
+
+const ATTR_EXTENDED_LENGTH = 0x10;
+const ATTR_AS_PATH = 2;
+const AS_SET = 1;
+
+export interface CollectorPeer {
+  asn: number;
+  ip: string;
+  bgpId: string;
+}
+
+export interface RibRoute {
+  // Index into the peer index table.
+  peer: number;
+  // AS path as seen by that peer, AS_SETs flattened (sorted).
+  path: number[];
+}
+
+export interface RibPrefix {
+  prefix: string;
+  routes: RibRoute[];
+}
+
+interface MrtRecord {
+  type: number;
+  subtype: number;
+  body: Uint8Array;
+}
+
+// Split a byte stream into MRT records. Only the unconsumed tail of the
+// stream is buffered, so memory stays at about one record.
+async function* readMrtRecords(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<MrtRecord> {
+  let buffer: Uint8Array = new Uint8Array(0);
+  for await (const chunk of stream) {
+    if (buffer.length === 0) {
+      buffer = chunk;
+    } else {
+      const joined = new Uint8Array(buffer.length + chunk.length);
+      joined.set(buffer);
+      joined.set(chunk, buffer.length);
+      buffer = joined;
+    }
+
+    let offset = 0;
+    while (buffer.length - offset >= MRT_HEADER_LENGTH) {
+      const view = new DataView(
+        buffer.buffer,
+        buffer.byteOffset + offset,
+        MRT_HEADER_LENGTH,
+      );
+      const length = view.getUint32(8);
+      const end = offset + MRT_HEADER_LENGTH + length;
+      if (end > buffer.length) break;
+      yield {
+        type: view.getUint16(4),
+        subtype: view.getUint16(6),
+        body: buffer.subarray(offset + MRT_HEADER_LENGTH, end),
+      };
+      offset = end;
+    }
+    buffer = buffer.slice(offset);
+  }
+  if (buffer.length > 0) throw new Error("MRT file ends mid-record");
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// Big-endian address bytes to the 32-bit words used by ip.ts.
+function toWords(bytes: Uint8Array, family: IpFamily): Uint32Array {
+  const words = new Uint32Array(family === "v4" ? 1 : 4);
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - 8 * (i & 3));
+  }
+  return words;
+}
+
+function parsePeerIndexTable(body: Uint8Array): CollectorPeer[] {
+  const view = dataView(body);
+  let offset = 4; // collector BGP ID
+  offset += 2 + view.getUint16(offset); // view name
+  const count = view.getUint16(offset);
+  offset += 2;
+
+  const peers: CollectorPeer[] = [];
+  for (let i = 0; i < count; i++) {
+    const peerType = body[offset];
+    const family: IpFamily = peerType & 1 ? "v6" : "v4";
+    const bgpId = formatAddress(
+      "v4",
+      toWords(body.subarray(offset + 1, offset + 5), "v4"),
+    );
+    offset += 5;
+    const ipLength = family === "v6" ? 16 : 4;
+    const ip = formatAddress(
+      family,
+      toWords(body.subarray(offset, offset + ipLength), family),
+    );
+    offset += ipLength;
+    let asn: number;
+    if (peerType & 2) {
+      asn = view.getUint32(offset);
+      offset += 4;
+    } else {
+      asn = view.getUint16(offset);
+      offset += 2;
+    }
+    peers.push({ asn, ip, bgpId });
+  }
+  return peers;
+}
+
+// The AS_PATH attribute, or null when the route has none (locally
+// originated). TABLE_DUMP_V2 always encodes ASNs in 4 bytes.
+function parseAsPath(attrs: Uint8Array): number[] | null {
+  const view = dataView(attrs);
+  let offset = 0;
+  while (offset < attrs.length) {
+    const flags = attrs[offset];
+    const type = attrs[offset + 1];
+    let length: number;
+    if (flags & ATTR_EXTENDED_LENGTH) {
+      length = view.getUint16(offset + 2);
+      offset += 4;
+    } else {
+      length = attrs[offset + 2];
+      offset += 3;
+    }
+    if (offset + length > attrs.length) {
+      throw new RangeError("Path attribute overruns its RIB entry");
+    }
+    if (type === ATTR_AS_PATH) {
+      const path: number[] = [];
+      const end = offset + length;
+      while (offset < end) {
+        const segmentType = attrs[offset];
+        const count = attrs[offset + 1];
+        offset += 2;
+        const segment: number[] = [];
+        for (let i = 0; i < count; i++) {
+          segment.push(view.getUint32(offset));
+          offset += 4;
+        }
+        // An AS_SET has no order; sort it so equal sets give equal paths.
+        if (segmentType === AS_SET) segment.sort((a, b) => a - b);
+        path.push(...segment);
+      }
+      return path.length > 0 ? path : null;
+    }
+    offset += length;
+  }
+  return null;
+}
+
+function parseRib(
+  body: Uint8Array,
+  family: IpFamily,
+  addPath: boolean,
+): RibPrefix {
+  const view = dataView(body);
+  const length = body[4];
+  const prefixBytes = Math.ceil(length / 8);
+  const prefix = formatPrefix({
+    family,
+    words: toWords(body.subarray(5, 5 + prefixBytes), family),
+    length,
+  });
+
+  let offset = 5 + prefixBytes;
+  const count = view.getUint16(offset);
+  offset += 2;
+  const routes: RibRoute[] = [];
+  for (let i = 0; i < count; i++) {
+    const peer = view.getUint16(offset);
+    offset += 6; // peer index, originated time
+    if (addPath) offset += 4;
+    const attrLength = view.getUint16(offset);
+    offset += 2;
+    if (offset + attrLength > body.length) {
+      throw new RangeError("RIB entry overruns its record");
+    }
+    const path = parseAsPath(body.subarray(offset, offset + attrLength));
+    offset += attrLength;
+    if (path) routes.push({ peer, path });
+  }
+  return { prefix, routes };
+}
+
+// Stream the unicast RIB of a TABLE_DUMP_V2 file. `onPeers` is called once
+// with the peer index table, before the first prefix. Returns the number of
+// RIB records that could not be parsed.
+export async function readMrtRib(
+  stream: ReadableStream<Uint8Array>,
+  onPeers: (peers: CollectorPeer[]) => void,
+  onPrefix: (rib: RibPrefix) => void,
+): Promise<number> {
+  let malformed = 0;
+  let sawPeers = false;
+  for await (const record of readMrtRecords(stream)) {
+    if (record.type !== TABLE_DUMP_V2) continue;
+    try {
+      switch (record.subtype) {
+        case PEER_INDEX_TABLE:
+          onPeers(parsePeerIndexTable(record.body));
+          sawPeers = true;
+          break;
+        case RIB_IPV4_UNICAST:
+        case RIB_IPV4_UNICAST_ADDPATH:
+        case RIB_IPV6_UNICAST:
+        case RIB_IPV6_UNICAST_ADDPATH: {
+          if (!sawPeers) throw new Error("RIB record before peer index table");
+          const family = record.subtype === RIB_IPV4_UNICAST ||
+              record.subtype === RIB_IPV4_UNICAST_ADDPATH
+            ? "v4"
+            : "v6";
+          const addPath = record.subtype === RIB_IPV4_UNICAST_ADDPATH ||
+            record.subtype === RIB_IPV6_UNICAST_ADDPATH;
+          onPrefix(parseRib(record.body, family, addPath));
+          break;
+        }
+      }
+    } catch (err) {
+      // A truncated record surfaces as a RangeError from DataView.
+      if (!(err instanceof RangeError)) throw err;
+      malformed++;
+    }
+  }
+  return malformed;
+}
+
+// Collapse prepending: 13335 13335 174 174 174 -> 13335 174.
+export function withoutPrepends(path: number[]): number[] {
+  return path.filter((asn, i) => i === 0 || asn !== path[i - 1]);
+}
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import {
+  type CollectorPeer,
+  readMrtRib,
+  type RibPrefix,
+  withoutPrepends,
+} from "./mrt.ts";
+
+// --- Encoding ---
+
+function bytes(...parts: (number[] | Uint8Array)[]): Uint8Array {
+  return new Uint8Array(parts.flatMap((p) => [...p]));
+}
+
+const u16 = (n: number) => [n >>> 8, n & 0xff];
+const u32 = (
+  n: number,
+) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+
+function record(type: number, subtype: number, body: Uint8Array): Uint8Array {
+  return bytes(u32(0), u16(type), u16(subtype), u32(body.length), body);
+}
+
+// PEER_INDEX_TABLE with IPv4 peers and 4-byte ASNs.
+function peerIndexTable(peers: { asn: number; ip: number[] }[]): Uint8Array {
+  return record(
+    13,
+    1,
+    bytes(
+      [192, 0, 2, 254],
+      u16(0),
+      u16(peers.length),
+      ...peers.flatMap((p) => [[2], p.ip, p.ip, u32(p.asn)]),
+    ),
+  );
+}
+
+// ORIGIN IGP, then AS_PATH made of (type, asns) segments.
+function attributes(segments: [number, number[]][]): Uint8Array {
+  const path = bytes(
+    ...segments.flatMap(([type, asns]) => [
+      [type, asns.length],
+      ...asns.map(u32),
+    ]),
+  );
+  return bytes([0x40, 1, 1, 0], [0x40, 2, path.length], path);
+}
+
+function rib(
+  subtype: number,
+  length: number,
+  prefix: number[],
+  entries: { peer: number; attrs: Uint8Array }[],
+): Uint8Array {
+  return record(
+    13,
+    subtype,
+    bytes(
+      u32(0),
+      [length],
+      prefix,
+      u16(entries.length),
+      ...entries.flatMap((e) => [
+        u16(e.peer),
+        u32(0),
+        u16(e.attrs.length),
+        e.attrs,
+      ]),
+    ),
+  );
+}
+
+// A stream handing out `data` a few bytes at a time, so records straddle
+// chunks.
+function chunked(data: Uint8Array, size = 7): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) return controller.close();
+      controller.enqueue(data.slice(offset, offset += size));
+    },
+  });
+}
+
+async function read(data: Uint8Array) {
+  let peers: CollectorPeer[] = [];
+  const ribs: RibPrefix[] = [];
+  const malformed = await readMrtRib(
+    chunked(data),
+    (p) => (peers = p),
+    (r) => ribs.push(r),
+  );
+  return { peers, ribs, malformed };
+}
+
+const MRT_HEADER = 12;
+const SEQUENCE = 2;
+const SET = 1;
+
+const PEERS = peerIndexTable([
+  { asn: 174, ip: [198, 51, 100, 1] },
+  { asn: 4_200_000_000, ip: [198, 51, 100, 2] },
+]);
+
+// --- Tests ---
+
+Deno.test("readMrtRib reads peers, prefixes and AS paths", async () => {
+  const data = bytes(
+    PEERS,
+    // A BGP4MP update record: skipped.
+    record(16, 4, bytes([1, 2, 3])),
+    rib(2, 24, [1, 1, 1], [
+      { peer: 0, attrs: attributes([[SEQUENCE, [174, 174, 13335]]]) },
+      {
+        peer: 1,
+        attrs: attributes([[SEQUENCE, [3356]], [SET, [13335, 64500]]]),
+      },
+      // No AS_PATH: locally originated, no route.
+      { peer: 1, attrs: bytes([0x40, 1, 1, 0]) },
+    ]),
+    rib(4, 32, [0x26, 0x06, 0x47, 0x00], [
+      { peer: 1, attrs: attributes([[SEQUENCE, [6939, 13335]]]) },
+    ]),
+  );
+  const { peers, ribs, malformed } = await read(data);
+  assert.deepEqual(peers, [
+    { asn: 174, ip: "198.51.100.1", bgpId: "198.51.100.1" },
+    { asn: 4_200_000_000, ip: "198.51.100.2", bgpId: "198.51.100.2" },
+  ]);
+  assert.deepEqual(ribs, [
+    {
+      prefix: "1.1.1.0/24",
+      routes: [
+        { peer: 0, path: [174, 174, 13335] },
+        { peer: 1, path: [3356, 13335, 64500] },
+      ],
+    },
+    {
+      prefix: "2606:4700::/32",
+      routes: [{ peer: 1, path: [6939, 13335] }],
+    },
+  ]);
+  assert.equal(malformed, 0);
+});
+
+Deno.test("readMrtRib counts records that overrun themselves", async () => {
+  const overrun = rib(2, 16, [10, 0], [
+    { peer: 0, attrs: attributes([[SEQUENCE, [174]]]) },
+  ]);
+  // Past the sequence number, prefix, entry count, peer index and time sits
+  // the attribute length; claim more than the record holds.
+  const attrLength = MRT_HEADER + 4 + 1 + 2 + 2 + 2 + 4;
+  overrun[attrLength + 1] += 40;
+  const data = bytes(
+    PEERS,
+    overrun,
+    rib(2, 8, [10], [{ peer: 0, attrs: attributes([[SEQUENCE, [174]]]) }]),
+  );
+  const { ribs, malformed } = await read(data);
+  assert.equal(malformed, 1);
+  assert.deepEqual(ribs.map((r) => r.prefix), ["10.0.0.0/8"]);
+});
+
+Deno.test("readMrtRib rejects RIBs before the peer table and truncated files", async () => {
+  const entry = rib(2, 8, [10], [
+    { peer: 0, attrs: attributes([[SEQUENCE, [174]]]) },
+  ]);
+  await assert.rejects(read(entry), {
+    message: "RIB record before peer index table",
+  });
+  await assert.rejects(read(bytes(PEERS, entry.subarray(0, 20))), {
+    message: "MRT file ends mid-record",
+  });
+});
+
+Deno.test("withoutPrepends collapses repeated ASNs", () => {
+  assert.deepEqual(withoutPrepends([13335, 13335, 174, 174, 174]), [
+    13335,
+    174,
+  ]);
+  assert.deepEqual(withoutPrepends([174, 3356, 174]), [174, 3356, 174]);
+  assert.deepEqual(withoutPrepends([]), []);
+});
@@ -0,0 +1,100 @@
+import { computeIxpPresence, networksFor } from "./check.ts";
+import type { IxpSelection } from "./ixps.ts";
+import { fetchAsnIxIdsBatch } from "./peeringdb.ts";
+import type { DataStatus } from "./types.ts";
+
+export interface MatrixRow {
+  asn: number;
+  name: string;
+  // "unknown" rows have no PeeringDB data: absent cells mean nothing.
+  dataStatus: DataStatus;
+  // Total port speed in Mbps per column, 0 when absent.
+  speeds: number[];
+  present: boolean[];
+}
+
+export interface PresenceMatrix {
+  ixps: { id: number; name: string; country: string }[];
+  rows: MatrixRow[];
+}
+
+// Overlap of two networks' IXP memberships, worldwide.
+export interface PairOverlap {
+  a: number;
+  b: number;
+  shared: number;
+  onlyA: number;
+  onlyB: number;
+  // Shared IXPs over IXPs either is on (Jaccard index), 0 to 1.
+  score: number;
+}
+
+// Networks as rows and the selected IXPs as columns.
+export async function computePresenceMatrix(
+  asn: number,
+  selection: IxpSelection,
+): Promise<PresenceMatrix> {
+  const ixps = await computeIxpPresence(asn, selection);
+  const rows = new Map<number, MatrixRow>();
+  ixps.forEach((ixp, column) => {
+    for (const net of ixp.networks) {
+      let row = rows.get(net.asn);
+      if (!row) {
+        row = {
+          asn: net.asn,
+          name: net.name,
+          dataStatus: net.dataStatus,
+          speeds: new Array(ixps.length).fill(0),
+          present: new Array(ixps.length).fill(false),
+        };
+        rows.set(net.asn, row);
+      }
+      row.speeds[column] = net.totalSpeed;
+      row.present[column] = net.present;
+    }
+  });
+  return {
+    ixps: ixps.map(({ id, name, country }) => ({ id, name, country })),
+    rows: [...rows.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+// Every pair of the networks compared with `asn`, over all their PeeringDB
+// memberships. Networks whose memberships are unknown are left out.
+export async function computePairOverlaps(asn: number): Promise<{
+  networks: { asn: number; name: string; ixps: number }[];
+  pairs: PairOverlap[];
+}> {
+  const networks = networksFor(asn);
+  const memberships = await fetchAsnIxIdsBatch(networks.map((n) => n.asn));
+  const known = networks
+    .map((n) => ({ ...n, ...memberships.get(n.asn)! }))
+    .filter((n) => n.status !== "unknown");
+
+  const pairs: PairOverlap[] = [];
+  for (let i = 0; i < known.length; i++) {
+    for (let j = i + 1; j < known.length; j++) {
+      const a = known[i];
+      const b = known[j];
+      let shared = 0;
+      for (const id of a.ixIds) if (b.ixIds.has(id)) shared++;
+      const union = a.ixIds.size + b.ixIds.size - shared;
+      pairs.push({
+        a: a.asn,
+        b: b.asn,
+        shared,
+        onlyA: a.ixIds.size - shared,
+        onlyB: b.ixIds.size - shared,
+        score: union > 0 ? Math.round((shared / union) * 1000) / 1000 : 0,
+      });
+    }
+  }
+  return {
+    networks: known.map((n) => ({
+      asn: n.asn,
+      name: n.name,
+      ixps: n.ixIds.size,
+    })),
+    pairs,
+  };
+}
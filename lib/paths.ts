@@ -0,0 +1,81 @@
+import { type BgpTable, entriesForAsn } from "./bgp.ts";
+
+export interface UpstreamSummary {
+  asn: number;
+  // Prefixes with at least one path through this upstream.
+  prefixes: number;
+  // Peer routes (peer × prefix) through this upstream.
+  routes: number;
+}
+
+export interface PeerVisibility {
+  asn: number;
+  ip: string;
+  // Prefixes of the origin this collector peer has a route to.
+  prefixes: number;
+  share: number;
+}
+
+export interface PathAnalysis {
+  asn: number;
+  prefixes: number;
+  collectorPeers: number;
+  // Peer routes where the collector peer is the origin's direct neighbour.
+  directRoutes: number;
+  upstreams: UpstreamSummary[];
+  peers: PeerVisibility[];
+}
+
+// Which ASNs `asn`'s prefixes are learned through, and how much of them each
+// collector peer sees. Needs a routing table with AS paths (an MRT source);
+// returns null otherwise.
+export function analyzePaths(
+  table: BgpTable,
+  asn: number,
+): PathAnalysis | null {
+  if (!table.peers) return null;
+  const entries = entriesForAsn(table, asn);
+
+  const upstreams = new Map<number, UpstreamSummary>();
+  const perPeer = new Array<number>(table.peers.length).fill(0);
+  let directRoutes = 0;
+
+  for (const entry of entries) {
+    const seen = new Set<number>();
+    for (const path of entry.paths ?? []) {
+      // The origin is last; the AS before it is the upstream.
+      if (path.asns.length < 2) {
+        directRoutes += path.peers;
+        continue;
+      }
+      const upstream = path.asns[path.asns.length - 2];
+      let summary = upstreams.get(upstream);
+      if (!summary) {
+        summary = { asn: upstream, prefixes: 0, routes: 0 };
+        upstreams.set(upstream, summary);
+      }
+      summary.routes += path.peers;
+      if (!seen.has(upstream)) {
+        summary.prefixes++;
+        seen.add(upstream);
+      }
+    }
+    for (const peer of entry.peers ?? []) perPeer[peer]++;
+  }
+
+  return {
+    asn,
+    prefixes: entries.length,
+    collectorPeers: table.peers.length,
+    directRoutes,
+    upstreams: [...upstreams.values()].sort((a, b) => b.routes - a.routes),
+    peers: table.peers
+      .map((peer, i) => ({
+        asn: peer.asn,
+        ip: peer.ip,
+        prefixes: perPeer[i],
+        share: entries.length > 0 ? perPeer[i] / entries.length : 0,
+      }))
+      .sort((a, b) => a.prefixes - b.prefixes),
+  };
+}
@@ -0,0 +1,386 @@
+import type { CacheStatus } from "./caches.ts";
+import { kv } from "./kv.ts";
+import { recordCacheLookup } from "./metrics.ts";
+import { ixpMembership } from "./providers.ts";
+import type { DataStatus, IxPort } from "./types.ts";
+
+const PEERINGDB_CACHE_TTL = 86400_000; // 24h
+// Entries outlive their TTL so a failed refresh can fall back to them.
+const PEERINGDB_CACHE_RETENTION = 30 * 86400_000; // 30 days
+// Entries fetched before this are refetched. Kept in memory: it only needs to
+// hold until this instance has refetched them into KV.
+let peeringDbExpiredAt = 0;
+
+function isFresh(fetchedAt: number, now: number): boolean {
+  return now - fetchedAt < PEERINGDB_CACHE_TTL &&
+    fetchedAt > peeringDbExpiredAt;
+}
+
+// Ports are stored as tuples to keep networks with hundreds of IXP ports
+// under the 64KB KV value limit: [ixId, speed, ipv4, ipv6, rsPeer, operational].
+type PortTuple = [
+  number,
+  number,
+  string | null,
+  string | null,
+  boolean,
+  boolean,
+];
+
+interface CachedIxIds {
+  ixIds: number[];
+  ports?: PortTuple[];
+  fetchedAt: number;
+}
+
+export interface AsnIxIds {
+  ixIds: Set<number>;
+  // Ports per IXP id, from PeeringDB netixlan.
+  ports: Map<number, IxPort[]>;
+  // When the data was fetched from PeeringDB, null if it never was.
+  fetchedAt: number | null;
+  // "stale" when PeeringDB failed and an expired cache entry is used,
+  // "unknown" when there was nothing to fall back to: an empty `ixIds` then
+  // says nothing about where the network is.
+  status: DataStatus;
+  error: string | null;
+  // Served from a fresh cache entry, without asking PeeringDB.
+  cached: boolean;
+}
+
+interface NetixlanEntry {
+  asn?: number;
+  ix_id?: number;
+  speed?: number;
+  ipaddr4?: string | null;
+  ipaddr6?: string | null;
+  is_rs_peer?: boolean;
+  operational?: boolean;
+}
+
+// ASNs per netixlan request; keeps the query string well under URL limits.
+const NETIXLAN_BATCH_SIZE = 50;
+
+// Ports of every ASN in `batch`, in one request. ASNs without any port map
+// to an empty list.
+async function requestPorts(
+  batch: number[],
+): Promise<Map<number, PortTuple[]>> {
+  const byAsn = new Map<number, PortTuple[]>(batch.map((asn) => [asn, []]));
+  const entries = await ixpMembership.query<NetixlanEntry>(
+    "netixlan",
+    { asn: batch.length === 1 ? batch[0] : batch },
+  );
+  for (const e of entries) {
+    if (!e.ix_id || e.asn === undefined) continue;
+    byAsn.get(e.asn)?.push([
+      e.ix_id,
+      e.speed ?? 0,
+      e.ipaddr4 || null,
+      e.ipaddr6 || null,
+      e.is_rs_peer ?? false,
+      e.operational ?? true,
+    ]);
+  }
+  return byAsn;
+}
+
+function toAsnIxIds(
+  ixIds: number[],
+  ports: PortTuple[],
+  fetchedAt: number | null,
+  status: DataStatus,
+  error: string | null,
+  cached = false,
+): AsnIxIds {
+  const byIx = new Map<number, IxPort[]>();
+  for (const [ixId, speed, ipv4, ipv6, rsPeer, operational] of ports) {
+    const port = { speed, ipv4, ipv6, rsPeer, operational };
+    const list = byIx.get(ixId);
+    if (list) list.push(port);
+    else byIx.set(ixId, [port]);
+  }
+  return {
+    ixIds: new Set(ixIds),
+    ports: byIx,
+    fetchedAt,
+    status,
+    error,
+    cached,
+  };
+}
+
+// IXP memberships of several networks. Cached entries are served while
+// fresh; the rest are fetched from PeeringDB in batches, falling back to the
+// last known good entry for the ASNs of a batch that fails.
+export async function fetchAsnIxIdsBatch(
+  asns: number[],
+): Promise<Map<number, AsnIxIds>> {
+  const unique = [...new Set(asns)];
+  const keys = unique.map((asn) => ["peeringdb", "asn", asn]);
+  const cached: (CachedIxIds | null)[] = [];
+  // getMany reads at most 10 keys at a time.
+  for (let i = 0; i < keys.length; i += 10) {
+    const entries = await kv.getMany<CachedIxIds[]>(keys.slice(i, i + 10));
+    cached.push(...entries.map((e) => e.value));
+  }
+
+  const now = Date.now();
+  const result = new Map<number, AsnIxIds>();
+  const expired: number[] = [];
+  unique.forEach((asn, i) => {
+    const entry = cached[i];
+    if (entry && isFresh(entry.fetchedAt, now)) {
+      recordCacheLookup("peeringdb", true);
+      const { ixIds, ports = [], fetchedAt } = entry;
+      result.set(
+        asn,
+        toAsnIxIds(ixIds, ports, fetchedAt, "fresh", null, true),
+      );
+    } else {
+      recordCacheLookup("peeringdb", false);
+      expired.push(asn);
+    }
+  });
+  if (expired.length === 0) return result;
+
+  // Each batch is stored as soon as it arrives, so one failed request only
+  // falls back for its own ASNs.
+  for (let i = 0; i < expired.length; i += NETIXLAN_BATCH_SIZE) {
+    const batch = expired.slice(i, i + NETIXLAN_BATCH_SIZE);
+    try {
+      const fetched = await requestPorts(batch);
+      for (const [asn, ports] of fetched) {
+        const ixIds = [...new Set(ports.map(([ixId]) => ixId))];
+        // An empty answer is not cached, it may be a transient glitch.
+        if (ixIds.length > 0) {
+          await kv.set(
+            ["peeringdb", "asn", asn],
+            { ixIds, ports, fetchedAt: now } satisfies CachedIxIds,
+            { expireIn: PEERINGDB_CACHE_RETENTION },
+          );
+        }
+        result.set(asn, toAsnIxIds(ixIds, ports, now, "fresh", null));
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "PeeringDB failed";
+      for (const asn of batch) {
+        const entry = cached[unique.indexOf(asn)];
+        if (entry) {
+          console.warn(`${error}, using cached data for AS${asn}`);
+          const { ixIds, ports = [], fetchedAt } = entry;
+          result.set(
+            asn,
+            toAsnIxIds(ixIds, ports, fetchedAt, "stale", error),
+          );
+        } else {
+          console.warn(`${error}, no cache available for AS${asn}`);
+          result.set(asn, toAsnIxIds([], [], null, "unknown", error));
+        }
+      }
+    }
+  }
+  return result;
+}
+
+export async function fetchAsnIxIds(asn: number): Promise<AsnIxIds> {
+  return (await fetchAsnIxIdsBatch([asn])).get(asn)!;
+}
+
+// --- Facilities (netfac) ---
+
+export interface Facility {
+  id: number;
+  name: string;
+  city: string;
+  country: string;
+}
+
+export interface AsnFacilities {
+  facilities: Facility[];
+  // As for AsnIxIds: an empty list is only an absence when "fresh".
+  status: DataStatus;
+  error: string | null;
+}
+
+interface CachedFacilities {
+  facilities: Facility[];
+  fetchedAt: number;
+}
+
+interface NetfacEntry {
+  fac_id: number;
+  name: string;
+  city: string;
+  country: string;
+}
+
+// Colocation facilities where `asn` is present, from PeeringDB netfac. Like
+// fetchAsnIxIds, an expired cache entry is preferred over no data at all.
+export async function fetchAsnFacilities(asn: number): Promise<AsnFacilities> {
+  const key = ["peeringdb", "fac", asn];
+  const cached = await kv.get<CachedFacilities>(key);
+  const now = Date.now();
+  if (cached.value && isFresh(cached.value.fetchedAt, now)) {
+    recordCacheLookup("peeringdb", true);
+    return {
+      facilities: cached.value.facilities,
+      status: "fresh",
+      error: null,
+    };
+  }
+
+  recordCacheLookup("peeringdb", false);
+  try {
+    const entries = await ixpMembership.query<NetfacEntry>("netfac", {
+      local_asn: asn,
+    });
+    const facilities = entries.map((e) => ({
+      id: e.fac_id,
+      name: e.name,
+      city: e.city,
+      country: e.country,
+    }));
+    if (facilities.length > 0) {
+      await kv.set(
+        key,
+        { facilities, fetchedAt: now } satisfies CachedFacilities,
+        { expireIn: PEERINGDB_CACHE_RETENTION },
+      );
+    }
+    return { facilities, status: "fresh", error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : "PeeringDB failed";
+    if (cached.value) {
+      console.warn(`${error}, using cached facilities for AS${asn}`);
+      return { facilities: cached.value.facilities, status: "stale", error };
+    }
+    console.warn(`${error}, no cached facilities for AS${asn}`);
+    return { facilities: [], status: "unknown", error };
+  }
+}
+
+// --- Network metadata (net) ---
+
+export interface NetworkInfo {
+  asn: number;
+  name: string;
+  // "Open", "Selective", "Restrictive" or "No".
+  policyGeneral: string | null;
+  policyUrl: string | null;
+  infoType: string | null;
+  infoTraffic: string | null;
+  infoRatio: string | null;
+  infoScope: string | null;
+  irrAsSet: string | null;
+  website: string | null;
+  fetchedAt: number;
+}
+
+interface NetEntry {
+  name?: string;
+  policy_general?: string;
+  policy_url?: string;
+  info_type?: string;
+  info_traffic?: string;
+  info_ratio?: string;
+  info_scope?: string;
+  irr_as_set?: string;
+  website?: string;
+}
+
+export interface NetworkLookup {
+  // Null when the network has no PeeringDB record, or when PeeringDB failed
+  // and nothing is cached ("unknown").
+  info: NetworkInfo | null;
+  status: DataStatus;
+  error: string | null;
+}
+
+// Peering policy and self-reported metadata for `asn` from PeeringDB net,
+// cached next to its netixlan entry.
+export async function fetchNetworkInfo(asn: number): Promise<NetworkLookup> {
+  const key = ["peeringdb", "net", asn];
+  const cached = await kv.get<NetworkInfo>(key);
+  const now = Date.now();
+  if (cached.value && isFresh(cached.value.fetchedAt, now)) {
+    recordCacheLookup("peeringdb", true);
+    return { info: cached.value, status: "fresh", error: null };
+  }
+
+  recordCacheLookup("peeringdb", false);
+  try {
+    const [entry] = await ixpMembership.query<NetEntry>("net", { asn });
+    if (!entry) {
+      return { info: cached.value ?? null, status: "fresh", error: null };
+    }
+    const info: NetworkInfo = {
+      asn,
+      name: entry.name ?? `AS${asn}`,
+      policyGeneral: entry.policy_general || null,
+      policyUrl: entry.policy_url || null,
+      infoType: entry.info_type || null,
+      infoTraffic: entry.info_traffic || null,
+      infoRatio: entry.info_ratio || null,
+      infoScope: entry.info_scope || null,
+      irrAsSet: entry.irr_as_set || null,
+      website: entry.website || null,
+      fetchedAt: now,
+    };
+    await kv.set(key, info, { expireIn: PEERINGDB_CACHE_RETENTION });
+    return { info, status: "fresh", error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : "PeeringDB failed";
+    if (cached.value) {
+      console.warn(`${error}, using cached details for AS${asn}`);
+      return { info: cached.value, status: "stale", error };
+    }
+    console.warn(`${error}, no cached details for AS${asn}`);
+    return { info: null, status: "unknown", error };
+  }
+}
+
+// --- Cache control ---
+
+// Refetch every cached entry on next use. Expired entries stay in KV as the
+// fallback for a failing PeeringDB.
+export function expirePeeringDbCache(now = Date.now()): void {
+  peeringDbExpiredAt = now;
+}
+
+// Entry counts per kind and the approximate stored size. Ages are those of
+// the oldest and newest entry.
+export async function peeringDbCacheStatus(
+  now = Date.now(),
+): Promise<CacheStatus> {
+  const details: Record<string, number> = { asn: 0, fac: 0, net: 0 };
+  let entries = 0;
+  let bytes = 0;
+  let expired = 0;
+  let oldest: number | null = null;
+  let newest: number | null = null;
+  for await (
+    const entry of kv.list<{ fetchedAt: number }>({ prefix: ["peeringdb"] })
+  ) {
+    const kind = String(entry.key[1]);
+    details[kind] = (details[kind] ?? 0) + 1;
+    entries++;
+    bytes += JSON.stringify(entry.value).length;
+    const { fetchedAt } = entry.value;
+    if (!isFresh(fetchedAt, now)) expired++;
+    if (oldest === null || fetchedAt < oldest) oldest = fetchedAt;
+    if (newest === null || fetchedAt > newest) newest = fetchedAt;
+  }
+  if (newest !== null) details.newestAgeMs = now - newest;
+  details.expiredEntries = expired;
+  return {
+    name: "peeringdb",
+    storage: "kv",
+    ttlMs: PEERINGDB_CACHE_TTL,
+    ageMs: oldest === null ? null : now - oldest,
+    expired: expired > 0,
+    entries,
+    bytes,
+    details,
+  };
+}
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+
+// Membership comes from the provider chosen when the modules load, hence the
+// dynamic import; fetch is stubbed below.
+Deno.env.set("IXP_SOURCE", "http");
+const { kv } = await import("./kv.ts");
+const { fetchAsnFacilities, fetchAsnIxIdsBatch, fetchNetworkInfo } =
+  await import("./peeringdb.ts");
+
+// Private-use ASNs, so nothing else in the test KV store is touched.
+const BASE = 4_210_000_000;
+const ASNS = Array.from({ length: 60 }, (_, i) => BASE + i);
+
+Deno.test("a failed netixlan batch only falls back for its own ASNs", async () => {
+  // An expired entry for an ASN of the second batch.
+  const stale = ASNS[55];
+  await kv.set(["peeringdb", "asn", stale], {
+    ixIds: [26],
+    ports: [[26, 10000, null, null, false, true]],
+    fetchedAt: 0,
+  });
+
+  const original = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (input) => {
+    const url = String(input);
+    requested.push(url);
+    if (url.includes(`${BASE},`)) {
+      const data = ASNS.slice(0, 50).map((asn) => ({
+        asn,
+        ix_id: 31,
+        speed: 1000,
+      }));
+      return Promise.resolve(Response.json({ data }));
+    }
+    return Promise.resolve(new Response("", { status: 400 }));
+  };
+  try {
+    const result = await fetchAsnIxIdsBatch(ASNS);
+    assert.equal(requested.length, 2);
+
+    const first = result.get(ASNS[0])!;
+    assert.equal(first.status, "fresh");
+    assert.equal(first.cached, false);
+    assert.deepEqual([...first.ixIds], [31]);
+    assert.ok(
+      (await kv.get(["peeringdb", "asn", ASNS[49]])).value,
+      "the successful batch is stored",
+    );
+
+    assert.equal(result.get(stale)!.status, "stale");
+    assert.deepEqual([...result.get(stale)!.ixIds], [26]);
+    const missing = result.get(ASNS[50])!;
+    assert.equal(missing.status, "unknown");
+    assert.match(missing.error!, /returned 400$/);
+
+    const again = await fetchAsnIxIdsBatch([ASNS[0]]);
+    assert.equal(requested.length, 2, "served from the cache");
+    assert.equal(again.get(ASNS[0])!.cached, true);
+  } finally {
+    globalThis.fetch = original;
+    for (const asn of ASNS) await kv.delete(["peeringdb", "asn", asn]);
+  }
+});
+
+Deno.test("facilities and network details report a failed PeeringDB", async () => {
+  const [cached, missing] = ASNS;
+  const facility = {
+    id: 1,
+    name: "Equinix DC2",
+    city: "Ashburn",
+    country: "US",
+  };
+  await kv.set(["peeringdb", "fac", cached], {
+    facilities: [facility],
+    fetchedAt: 0,
+  });
+  await kv.set(["peeringdb", "net", cached], {
+    asn: cached,
+    name: "Cached",
+    fetchedAt: 0,
+  });
+
+  const original = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(new Response("", { status: 400 }));
+  try {
+    const stale = await fetchAsnFacilities(cached);
+    assert.equal(stale.status, "stale");
+    assert.deepEqual(stale.facilities, [facility]);
+    const unknown = await fetchAsnFacilities(missing);
+    assert.equal(unknown.status, "unknown");
+    assert.deepEqual(unknown.facilities, []);
+    assert.match(unknown.error!, /returned 400$/);
+
+    const info = await fetchNetworkInfo(cached);
+    assert.equal(info.status, "stale");
+    assert.equal(info.info?.name, "Cached");
+    assert.deepEqual(
+      { ...await fetchNetworkInfo(missing), error: null },
+      { info: null, status: "unknown", error: null },
+    );
+  } finally {
+    globalThis.fetch = original;
+    for (const kind of ["fac", "net"]) {
+      await kv.delete(["peeringdb", kind, cached]);
+    }
+  }
+});
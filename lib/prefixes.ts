@@ -0,0 +1,251 @@
+import { analyzeAddressSpace, type MoreSpecific } from "./aggregate.ts";
+import { type BgpEntry, entriesForAsn, fetchBgpTable } from "./bgp.ts";
+import {
+  comparePrefixes,
+  formatPrefix,
+  type IpFamily,
+  type ParsedPrefix,
+  parsePrefix,
+  prefixContains,
+} from "./ip.ts";
+import { fetchVrps, validateOrigin, type VrpIndex } from "./rpki.ts";
+import type { CfPrefixInfo, RpkiStatus } from "./types.ts";
+
+// Per-prefix details for every announcement of an AS: RPKI state when VRPs
+// are available, and the covering announcement for more-specifics.
+export function describePrefixes(
+  entries: BgpEntry[],
+  vrps: VrpIndex | null,
+  moreSpecifics: MoreSpecific[],
+): CfPrefixInfo[] {
+  const coveredBy = new Map(moreSpecifics.map((m) => [m.prefix, m.coveredBy]));
+  return entries.map((e) => {
+    const parsed = parsePrefix(e.CIDR);
+    return {
+      prefix: e.CIDR,
+      type: e.CIDR.includes(":") ? "v6" : "v4",
+      visibility: e.Hits,
+      mask: parseInt(e.CIDR.split("/")[1]),
+      rpki: vrps && parsed ? validateOrigin(vrps, parsed, e.ASN) : null,
+      // More-specifics are keyed by the normalized prefix.
+      coveredBy: (parsed && coveredBy.get(formatPrefix(parsed))) ?? null,
+    };
+  });
+}
+
+// Every prefix `asn` announces in the current routing table, described.
+export async function loadPrefixes(
+  asn: number,
+): Promise<{ prefixes: CfPrefixInfo[]; tableFetchedAt: number }> {
+  const [table, vrps] = await Promise.all([fetchBgpTable(asn), fetchVrps()]);
+  const entries = entriesForAsn(table, asn);
+  return {
+    prefixes: describePrefixes(
+      entries,
+      vrps,
+      analyzeAddressSpace(entries).moreSpecifics,
+    ),
+    tableFetchedAt: table.fetchedAt,
+  };
+}
+
+// --- Query ---
+
+export type PrefixSort = "visibility" | "prefix" | "mask";
+
+export interface PrefixQuery {
+  family: IpFamily | null;
+  minMask: number | null;
+  maxMask: number | null;
+  minVisibility: number | null;
+  maxVisibility: number | null;
+  // Only prefixes inside this one.
+  within: ParsedPrefix | null;
+  // Substring of the prefix text.
+  search: string | null;
+  rpki: RpkiStatus | null;
+  sort: PrefixSort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor: PrefixCursor | null;
+}
+
+// Keyset cursor: the sort value and prefix of the last item returned.
+type PrefixCursor = [number | string, string];
+
+const SORTS: PrefixSort[] = ["visibility", "prefix", "mask"];
+const RPKI_STATES: RpkiStatus[] = ["valid", "invalid", "not-found"];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function encodeCursor(cursor: PrefixCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/=+$/, "");
+}
+
+function decodeCursor(text: string): PrefixCursor | null {
+  try {
+    const value = JSON.parse(atob(text));
+    if (
+      Array.isArray(value) && value.length === 2 &&
+      typeof value[1] === "string" && parsePrefix(value[1])
+    ) {
+      return value as PrefixCursor;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+function intParam(
+  params: URLSearchParams,
+  name: string,
+): number | null | string {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0
+    ? value
+    : `${name} must be a non-negative integer`;
+}
+
+// Parse /api/prefixes query parameters. Returns an error message when one
+// is invalid.
+export function parsePrefixQuery(
+  params: URLSearchParams,
+): PrefixQuery | string {
+  const family = params.get("family");
+  if (family !== null && family !== "v4" && family !== "v6") {
+    return "family must be v4 or v6";
+  }
+
+  const ints: Record<string, number | null> = {};
+  for (
+    const name of ["minMask", "maxMask", "minVisibility", "maxVisibility"]
+  ) {
+    const value = intParam(params, name);
+    if (typeof value === "string") return value;
+    ints[name] = value;
+  }
+
+  const withinParam = params.get("within");
+  const within = withinParam ? parsePrefix(withinParam) : null;
+  if (withinParam && !within) return `"${withinParam}" is not a prefix`;
+
+  const rpki = params.get("rpki");
+  if (rpki !== null && !RPKI_STATES.includes(rpki as RpkiStatus)) {
+    return `rpki must be one of ${RPKI_STATES.join(", ")}`;
+  }
+
+  const sort = params.get("sort") ?? "visibility";
+  if (!SORTS.includes(sort as PrefixSort)) {
+    return `sort must be one of ${SORTS.join(", ")}`;
+  }
+  const order = params.get("order") ?? "asc";
+  if (order !== "asc" && order !== "desc") return "order must be asc or desc";
+
+  const limit = intParam(params, "limit");
+  if (typeof limit === "string") return limit;
+
+  const cursorParam = params.get("cursor");
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) return "Invalid cursor";
+
+  return {
+    family: family as IpFamily | null,
+    minMask: ints.minMask,
+    maxMask: ints.maxMask,
+    minVisibility: ints.minVisibility,
+    maxVisibility: ints.maxVisibility,
+    within,
+    search: params.get("q")?.trim().toLowerCase() || null,
+    rpki: rpki as RpkiStatus | null,
+    sort: sort as PrefixSort,
+    order,
+    limit: Math.min(Math.max(limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT),
+    cursor,
+  };
+}
+
+function sortValue(p: CfPrefixInfo, sort: PrefixSort): number | string {
+  if (sort === "visibility") return p.visibility;
+  if (sort === "mask") return p.mask;
+  return p.prefix;
+}
+
+// Address order, v4 before v6.
+function compareByAddress(a: string, b: string): number {
+  const pa = parsePrefix(a)!;
+  const pb = parsePrefix(b)!;
+  if (pa.family !== pb.family) return pa.family === "v4" ? -1 : 1;
+  return comparePrefixes(pa, pb);
+}
+
+export interface PrefixPage {
+  items: CfPrefixInfo[];
+  // Prefixes matching the filters, across all pages.
+  total: number;
+  nextCursor: string | null;
+}
+
+export function queryPrefixes(
+  prefixes: CfPrefixInfo[],
+  q: PrefixQuery,
+): PrefixPage {
+  const matching = prefixes.filter((p) => {
+    if (q.family && p.type !== q.family) return false;
+    if (q.minMask !== null && p.mask < q.minMask) return false;
+    if (q.maxMask !== null && p.mask > q.maxMask) return false;
+    if (q.minVisibility !== null && p.visibility < q.minVisibility) {
+      return false;
+    }
+    if (q.maxVisibility !== null && p.visibility > q.maxVisibility) {
+      return false;
+    }
+    if (q.rpki && p.rpki !== q.rpki) return false;
+    if (q.search && !p.prefix.toLowerCase().includes(q.search)) return false;
+    if (q.within) {
+      const parsed = parsePrefix(p.prefix);
+      if (!parsed || !prefixContains(q.within, parsed)) return false;
+    }
+    return true;
+  });
+
+  // Sort by the chosen key, then by address so the order is total and the
+  // cursor stays stable across pages.
+  const direction = q.order === "asc" ? 1 : -1;
+  const compare = (
+    aValue: number | string,
+    aPrefix: string,
+    bValue: number | string,
+    bPrefix: string,
+  ) => {
+    const primary = q.sort === "prefix"
+      ? 0
+      : (aValue as number) - (bValue as number);
+    return (primary || compareByAddress(aPrefix, bPrefix)) * direction;
+  };
+  matching.sort((a, b) =>
+    compare(sortValue(a, q.sort), a.prefix, sortValue(b, q.sort), b.prefix)
+  );
+
+  let start = 0;
+  if (q.cursor) {
+    const [value, prefix] = q.cursor;
+    start = matching.findIndex((p) =>
+      compare(sortValue(p, q.sort), p.prefix, value, prefix) > 0
+    );
+    if (start === -1) start = matching.length;
+  }
+
+  const items = matching.slice(start, start + q.limit);
+  const last = items[items.length - 1];
+  const hasMore = start + q.limit < matching.length;
+  return {
+    items,
+    total: matching.length,
+    nextCursor: hasMore && last
+      ? encodeCursor([sortValue(last, q.sort), last.prefix])
+      : null,
+  };
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { analyzeAddressSpace } from "./aggregate.ts";
+import type { BgpEntry } from "./bgp.ts";
+import {
+  describePrefixes,
+  parsePrefixQuery,
+  type PrefixQuery,
+  queryPrefixes,
+} from "./prefixes.ts";
+import type { CfPrefixInfo } from "./types.ts";
+
+Deno.test("describePrefixes finds the cover of non-canonical prefixes", () => {
+  const entries: BgpEntry[] = [
+    { CIDR: "2606:4700::/32", ASN: 13335, Hits: 2900 },
+    { CIDR: "2606:4700:0010:0::/44", ASN: 13335, Hits: 2100 },
+    { CIDR: "1.1.1.0/24", ASN: 13335, Hits: 3000 },
+  ];
+  const prefixes = describePrefixes(
+    entries,
+    null,
+    analyzeAddressSpace(entries).moreSpecifics,
+  );
+  assert.deepEqual(prefixes.map((p) => p.coveredBy), [
+    null,
+    "2606:4700::/32",
+    null,
+  ]);
+  // Prefixes are shown as announced.
+  assert.equal(prefixes[1].prefix, "2606:4700:0010:0::/44");
+});
+
+function query(text: string): PrefixQuery {
+  const q = parsePrefixQuery(new URLSearchParams(text));
+  assert.ok(typeof q !== "string", q as string);
+  return q;
+}
+
+function info(prefix: string, visibility: number): CfPrefixInfo {
+  return {
+    prefix,
+    type: prefix.includes(":") ? "v6" : "v4",
+    visibility,
+    mask: Number(prefix.split("/")[1]),
+    rpki: null,
+    coveredBy: null,
+  };
+}
+
+const PREFIXES = [
+  info("1.1.1.0/24", 3000),
+  info("1.0.0.0/24", 3000),
+  info("104.16.0.0/13", 2800),
+  info("104.16.0.0/20", 900),
+  info("2606:4700::/32", 2900),
+  info("2606:4700:10::/44", 300),
+];
+
+Deno.test("parsePrefixQuery rejects invalid parameters", () => {
+  const error = (text: string) => parsePrefixQuery(new URLSearchParams(text));
+  assert.equal(error("family=v5"), "family must be v4 or v6");
+  assert.equal(error("minMask=-1"), "minMask must be a non-negative integer");
+  assert.equal(error("within=1.1.1.1/33"), '"1.1.1.1/33" is not a prefix');
+  assert.equal(
+    error("rpki=unknown"),
+    "rpki must be one of valid, invalid, not-found",
+  );
+  assert.equal(
+    error("sort=hits"),
+    "sort must be one of visibility, prefix, mask",
+  );
+  assert.equal(error("order=up"), "order must be asc or desc");
+  assert.equal(error("cursor=nonsense"), "Invalid cursor");
+
+  assert.equal(query("").limit, 50);
+  assert.equal(query("limit=0").limit, 1);
+  assert.equal(query("limit=10000").limit, 500);
+  assert.equal(query("q=%202606%20").search, "2606");
+});
+
+Deno.test("queryPrefixes filters, sorts and pages with cursors", () => {
+  const within = queryPrefixes(PREFIXES, query("within=104.16.0.0/12"));
+  assert.deepEqual(within.items.map((p) => p.prefix), [
+    "104.16.0.0/20",
+    "104.16.0.0/13",
+  ]);
+
+  const v6 = queryPrefixes(PREFIXES, query("family=v6&minMask=40"));
+  assert.deepEqual(v6.items.map((p) => p.prefix), ["2606:4700:10::/44"]);
+
+  // Ties are broken by address, in the same direction.
+  const seen: string[] = [];
+  let cursor = "";
+  for (let pages = 0; pages < 10; pages++) {
+    const page = queryPrefixes(
+      PREFIXES,
+      query(`sort=visibility&order=desc&limit=2${cursor}`),
+    );
+    assert.equal(page.total, PREFIXES.length);
+    seen.push(...page.items.map((p) => p.prefix));
+    if (!page.nextCursor) break;
+    cursor = `&cursor=${page.nextCursor}`;
+  }
+  assert.deepEqual(seen, [
+    "1.1.1.0/24",
+    "1.0.0.0/24",
+    "2606:4700::/32",
+    "104.16.0.0/13",
+    "104.16.0.0/20",
+    "2606:4700:10::/44",
+  ]);
+});
@@ -0,0 +1,328 @@
+import {
+  IXP_SOURCE,
+  PEERINGDB_API_KEY,
+  ROUTING_TABLE_SOURCE,
+  USER_AGENT,
+} from "./config.ts";
+import { readJsonLines } from "./jsonl.ts";
+import {
+  type CollectorPeer,
+  readMrtRib,
+  type RibRoute,
+  withoutPrepends,
+} from "./mrt.ts";
+import type { AsPath, BgpEntry } from "./bgp.ts";
+
+// --- Routing table ---
+
+export interface TableRead {
+  // Records that could not be read as a route.
+  unreadable: number;
+  // The collector's peers, for sources that know which peer has a route.
+  peers: CollectorPeer[] | null;
+}
+
+export interface RoutingTableProvider {
+  // Where the table comes from, for logs and error messages.
+  readonly name: string;
+  // Stream every route of the table to `onEntry`. Sources with AS paths fill
+  // in `peers` and `paths` for origins `detailFor` returns true for.
+  read(
+    onEntry: (entry: BgpEntry) => void,
+    detailFor?: (asn: number) => boolean,
+  ): Promise<TableRead>;
+}
+
+function isBgpEntry(value: unknown): value is BgpEntry {
+  const v = value as BgpEntry;
+  return typeof v?.CIDR === "string" && typeof v.ASN === "number" &&
+    typeof v.Hits === "number";
+}
+
+// Read a bgp.tools-style JSON Lines table: one {CIDR, ASN, Hits} per line.
+async function readTableJsonLines(
+  body: ReadableStream<BufferSource>,
+  onEntry: (entry: BgpEntry) => void,
+): Promise<TableRead> {
+  let malformed = 0;
+  const invalidJson = await readJsonLines(body, (value) => {
+    if (isBgpEntry(value)) onEntry(value);
+    else malformed++;
+  });
+  return { unreadable: invalidJson + malformed, peers: null };
+}
+
+// The full table from bgp.tools, several hundred MB of JSON Lines.
+export class BgpToolsProvider implements RoutingTableProvider {
+  readonly name = "bgp.tools";
+
+  async read(onEntry: (entry: BgpEntry) => void): Promise<TableRead> {
+    const resp = await fetch("https://bgp.tools/table.jsonl", {
+      headers: { "User-Agent": USER_AGENT },
+    });
+    if (!resp.ok || !resp.body) {
+      throw new Error(
+        `bgp.tools returned ${resp.status}: ${await resp.text()}`,
+      );
+    }
+    return await readTableJsonLines(resp.body, onEntry);
+  }
+}
+
+// A table dump in the bgp.tools JSON Lines format on local disk.
+export class JsonLinesFileProvider implements RoutingTableProvider {
+  readonly name: string;
+  private path: string;
+
+  constructor(path: string) {
+    this.name = path;
+    this.path = path;
+  }
+
+  async read(onEntry: (entry: BgpEntry) => void): Promise<TableRead> {
+    const file = await Deno.open(this.path);
+    return await readTableJsonLines(file.readable, onEntry);
+  }
+}
+
+// Distinct AS paths (prepending removed) and how many peers use each.
+function summarizePaths(routes: RibRoute[]): AsPath[] {
+  const paths = new Map<string, AsPath>();
+  for (const route of routes) {
+    const asns = withoutPrepends(route.path);
+    const key = asns.join(" ");
+    const path = paths.get(key);
+    if (path) path.peers++;
+    else paths.set(key, { asns, peers: 1 });
+  }
+  return [...paths.values()].sort((a, b) => b.peers - a.peers);
+}
+
+// A TABLE_DUMP_V2 RIB file from our own collector, or a RouteViews / RIS
+// dump. Hits is the number of collector peers with a route to the prefix
+// from that origin. Gzipped files are decompressed on the fly; bzip2 ones
+// (RouteViews' default) need to be decompressed first.
+export class MrtFileProvider implements RoutingTableProvider {
+  readonly name: string;
+  private path: string;
+
+  constructor(path: string) {
+    this.name = path;
+    this.path = path;
+  }
+
+  async read(
+    onEntry: (entry: BgpEntry) => void,
+    detailFor: (asn: number) => boolean = () => false,
+  ): Promise<TableRead> {
+    if (this.path.endsWith(".bz2")) {
+      throw new Error(`${this.path}: decompress bzip2 MRT files first`);
+    }
+    const file = await Deno.open(this.path);
+    const stream = this.path.endsWith(".gz")
+      ? file.readable.pipeThrough(new DecompressionStream("gzip"))
+      : file.readable;
+
+    let peers: CollectorPeer[] = [];
+    const unreadable = await readMrtRib(stream, (p) => (peers = p), (rib) => {
+      // Several origins may announce the prefix (MOAS): one entry each.
+      const byOrigin = new Map<number, RibRoute[]>();
+      for (const route of rib.routes) {
+        const origin = route.path[route.path.length - 1];
+        const routes = byOrigin.get(origin);
+        if (routes) routes.push(route);
+        else byOrigin.set(origin, [route]);
+      }
+      for (const [asn, routes] of byOrigin) {
+        const peerSet = new Set(routes.map((r) => r.peer));
+        const entry: BgpEntry = {
+          CIDR: rib.prefix,
+          ASN: asn,
+          Hits: peerSet.size,
+        };
+        if (detailFor(asn)) {
+          entry.peers = [...peerSet].sort((a, b) => a - b);
+          entry.paths = summarizePaths(routes);
+        }
+        onEntry(entry);
+      }
+    });
+    return { unreadable, peers };
+  }
+}
+
+// --- IXP membership ---
+
+// PeeringDB objects are queried by exact match on numeric fields, e.g.
+// ("netixlan", { asn: 13335 }) or ("netfac", { local_asn: 13335 }). A list
+// matches any of its values: ("netixlan", { asn: [13335, 15169] }).
+export type PeeringDbFilter = Record<string, number | number[]>;
+
+export interface IxpMembershipProvider {
+  readonly name: string;
+  query<T>(object: string, filter: PeeringDbFilter): Promise<T[]>;
+}
+
+function describeQuery(object: string, filter: PeeringDbFilter): string {
+  const params = Object.entries(filter).map(([k, v]) =>
+    Array.isArray(v) ? `${k}__in=${v.join(",")}` : `${k}=${v}`
+  );
+  return params.length > 0 ? `${object}?${params.join("&")}` : object;
+}
+
+// Anonymous PeeringDB access is rate limited to a few requests per minute, so
+// throttled and failed requests are retried a few times with exponential
+// backoff, or after the delay the server asks for.
+const PEERINGDB_ATTEMPTS = 3;
+const PEERINGDB_BACKOFF = 2000;
+const PEERINGDB_MAX_DELAY = 60_000;
+
+// Retry-After is either a number of seconds or an HTTP date.
+export function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+class RetryableError extends Error {
+  delay: number | null;
+
+  constructor(message: string, delay: number | null = null) {
+    super(message);
+    this.delay = delay;
+  }
+}
+
+// The live PeeringDB API.
+export class PeeringDbApiProvider implements IxpMembershipProvider {
+  readonly name = "peeringdb.com";
+
+  async query<T>(object: string, filter: PeeringDbFilter): Promise<T[]> {
+    const path = describeQuery(object, filter);
+    for (let attempt = 1;; attempt++) {
+      try {
+        return await this.request<T>(path);
+      } catch (err) {
+        if (!(err instanceof RetryableError) || attempt >= PEERINGDB_ATTEMPTS) {
+          throw err;
+        }
+        const backoff = PEERINGDB_BACKOFF * 2 ** (attempt - 1);
+        const delay = Math.min(err.delay ?? backoff, PEERINGDB_MAX_DELAY);
+        console.warn(`${err.message}, retrying in ${Math.round(delay)}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async request<T>(path: string): Promise<T[]> {
+    const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+    if (PEERINGDB_API_KEY) {
+      headers["Authorization"] = `Api-Key ${PEERINGDB_API_KEY}`;
+    }
+    let resp: Response;
+    try {
+      resp = await fetch(`https://www.peeringdb.com/api/${path}`, {
+        headers,
+      });
+    } catch (err) {
+      throw new RetryableError(
+        `PeeringDB ${path} failed: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+    if (!resp.ok) {
+      await resp.body?.cancel();
+      const message = `PeeringDB ${path} returned ${resp.status}`;
+      if (resp.status === 429 || resp.status >= 500) {
+        throw new RetryableError(
+          message,
+          retryAfterMs(resp.headers.get("Retry-After")),
+        );
+      }
+      throw new Error(message);
+    }
+    // An error in a 200 answer is about the query itself; asking again
+    // would get the same answer.
+    const data = await resp.json();
+    if (data.meta?.error) {
+      throw new Error(`PeeringDB ${path} failed: ${data.meta.error}`);
+    }
+    if (!Array.isArray(data.data)) {
+      throw new Error(`PeeringDB ${path} returned no data`);
+    }
+    return data.data;
+  }
+}
+
+// A full PeeringDB JSON dump on local disk, as published by CAIDA or written
+// by `peeringdb dump`: { "net": { "data": [...] }, "netixlan": { ... }, ... }.
+// Bare arrays per object type are accepted as well. The file is read once; a
+// failed read is retried on the next query.
+export class PeeringDbDumpProvider implements IxpMembershipProvider {
+  readonly name: string;
+  private path: string;
+  private dump: Promise<Record<string, unknown>> | null = null;
+
+  constructor(path: string) {
+    this.name = path;
+    this.path = path;
+  }
+
+  async query<T>(object: string, filter: PeeringDbFilter): Promise<T[]> {
+    this.dump ??= Deno.readTextFile(this.path).then(JSON.parse).catch(
+      (err) => {
+        this.dump = null;
+        throw err;
+      },
+    );
+    const section = (await this.dump)[object] as
+      | { data?: unknown }
+      | unknown[]
+      | undefined;
+    const records = Array.isArray(section) ? section : section?.data;
+    if (!Array.isArray(records)) {
+      throw new Error(`${this.path} has no "${object}" records`);
+    }
+    const conditions = Object.entries(filter);
+    return records.filter((r) =>
+      conditions.every(([k, v]) => {
+        const value = (r as Record<string, unknown>)[k];
+        return Array.isArray(v) ? v.includes(value as number) : value === v;
+      })
+    ) as T[];
+  }
+}
+
+// --- Selection ---
+
+// A source is "http" for the public APIs or "file:<path>" for a local dump.
+// The routing table also takes "mrt:<path>" for an MRT RIB dump.
+function sourcePath(source: string, scheme: string): string | null {
+  return source.startsWith(`${scheme}:`)
+    ? source.slice(scheme.length + 1)
+    : null;
+}
+
+export function createRoutingTableProvider(
+  source: string,
+): RoutingTableProvider {
+  if (source === "http") return new BgpToolsProvider();
+  const path = sourcePath(source, "file");
+  if (path) return new JsonLinesFileProvider(path);
+  const mrtPath = sourcePath(source, "mrt");
+  if (mrtPath) return new MrtFileProvider(mrtPath);
+  throw new Error(`Unknown ROUTING_TABLE_SOURCE "${source}"`);
+}
+
+export function createIxpMembershipProvider(
+  source: string,
+): IxpMembershipProvider {
+  if (source === "http") return new PeeringDbApiProvider();
+  const path = sourcePath(source, "file");
+  if (path) return new PeeringDbDumpProvider(path);
+  throw new Error(`Unknown IXP_SOURCE "${source}"`);
+}
+
+export const routingTable = createRoutingTableProvider(ROUTING_TABLE_SOURCE);
+export const ixpMembership = createIxpMembershipProvider(IXP_SOURCE);
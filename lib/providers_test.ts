@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import type { BgpEntry } from "./bgp.ts";
+import {
+  BgpToolsProvider,
+  createIxpMembershipProvider,
+  createRoutingTableProvider,
+  JsonLinesFileProvider,
+  MrtFileProvider,
+  PeeringDbApiProvider,
+  PeeringDbDumpProvider,
+  retryAfterMs,
+} from "./providers.ts";
+
+const TABLE = new URL("../fixtures/table.jsonl", import.meta.url).pathname;
+const PEERINGDB = new URL("../fixtures/peeringdb.json", import.meta.url)
+  .pathname;
+
+Deno.test("JsonLinesFileProvider streams the table and counts bad lines", async () => {
+  const entries: BgpEntry[] = [];
+  const read = await new JsonLinesFileProvider(TABLE).read((e) =>
+    entries.push(e)
+  );
+  // One line is not JSON, one has a string ASN.
+  assert.deepEqual(read, { unreadable: 2, peers: null });
+  assert.equal(entries.length, 22);
+  assert.deepEqual(entries[0], { CIDR: "1.1.1.0/24", ASN: 13335, Hits: 3100 });
+  assert.equal(entries.filter((e) => e.ASN === 13335).length, 13);
+});
+
+Deno.test("PeeringDbDumpProvider filters on exact values and lists", async () => {
+  const dump = new PeeringDbDumpProvider(PEERINGDB);
+  const cf = await dump.query<{ ix_id: number }>("netixlan", { asn: 13335 });
+  assert.equal(cf.length, 16);
+
+  const atAmsIx = await dump.query<{ asn: number }>("netixlan", {
+    ix_id: 26,
+    asn: [16509, 15169, 64496],
+  });
+  assert.deepEqual(atAmsIx.map((r) => r.asn).sort(), [15169, 16509]);
+
+  const ixps = await dump.query("ix", {});
+  assert.equal(ixps.length, 16);
+
+  await assert.rejects(
+    dump.query("carrier", {}),
+    { message: `${PEERINGDB} has no "carrier" records` },
+  );
+});
+
+Deno.test("PeeringDbDumpProvider retries a dump that failed to read", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/peeringdb.json`;
+  try {
+    const dump = new PeeringDbDumpProvider(path);
+    await assert.rejects(dump.query("net", {}), Deno.errors.NotFound);
+
+    await Deno.writeTextFile(path, JSON.stringify({ net: [{ asn: 64496 }] }));
+    assert.deepEqual(await dump.query("net", { asn: 64496 }), [
+      { asn: 64496 },
+    ]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("sources select their provider", () => {
+  assert.ok(createRoutingTableProvider("http") instanceof BgpToolsProvider);
+  assert.ok(
+    createRoutingTableProvider(`file:${TABLE}`) instanceof
+      JsonLinesFileProvider,
+  );
+  assert.ok(
+    createRoutingTableProvider("mrt:/tmp/rib.gz") instanceof MrtFileProvider,
+  );
+  assert.throws(() => createRoutingTableProvider("ftp:/x"), {
+    message: 'Unknown ROUTING_TABLE_SOURCE "ftp:/x"',
+  });
+
+  assert.ok(
+    createIxpMembershipProvider("http") instanceof PeeringDbApiProvider,
+  );
+  const dump = createIxpMembershipProvider(`file:${PEERINGDB}`);
+  assert.ok(dump instanceof PeeringDbDumpProvider);
+  assert.equal(dump.name, PEERINGDB);
+  assert.throws(() => createIxpMembershipProvider("mrt:/tmp/rib.gz"), {
+    message: 'Unknown IXP_SOURCE "mrt:/tmp/rib.gz"',
+  });
+});
+
+Deno.test("retryAfterMs reads seconds and HTTP dates", () => {
+  assert.equal(retryAfterMs(null), null);
+  assert.equal(retryAfterMs("120"), 120_000);
+  assert.equal(retryAfterMs("0"), 0);
+  assert.equal(retryAfterMs("-5"), 0);
+  assert.equal(retryAfterMs("soon"), null);
+  assert.equal(retryAfterMs("Thu, 01 Jan 1970 00:00:00 GMT"), 0);
+  const inAMinute = new Date(Date.now() + 60_000).toUTCString();
+  const delay = retryAfterMs(inAMinute)!;
+  // HTTP dates have a resolution of one second.
+  assert.ok(delay > 58_000 && delay <= 60_000, `${delay}`);
+});
+
+// Run `fn` with fetch answering from `responses` in turn, and return how many
+// requests were made.
+async function withFetch(
+  responses: (() => Response)[],
+  fn: () => Promise<void>,
+): Promise<number> {
+  const original = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = () => Promise.resolve(responses[calls++]());
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+  return calls;
+}
+
+Deno.test("PeeringDbApiProvider retries throttled and failed requests", async () => {
+  const throttled = () =>
+    new Response("slow down", { status: 429, headers: { "Retry-After": "0" } });
+  const unavailable = () =>
+    new Response("", { status: 503, headers: { "Retry-After": "0" } });
+  const ok = () => Response.json({ data: [{ asn: 13335 }] });
+  const api = new PeeringDbApiProvider();
+
+  assert.equal(
+    await withFetch([throttled, unavailable, ok], async () => {
+      assert.deepEqual(await api.query("net", { asn: 13335 }), [
+        { asn: 13335 },
+      ]);
+    }),
+    3,
+  );
+  assert.equal(
+    await withFetch([throttled, throttled, throttled, ok], async () => {
+      await assert.rejects(api.query("net", {}), {
+        message: "PeeringDB net returned 429",
+      });
+    }),
+    3,
+  );
+});
+
+Deno.test("PeeringDbApiProvider does not retry query errors", async () => {
+  const api = new PeeringDbApiProvider();
+  const queryError = () =>
+    Response.json({ data: [], meta: { error: "Unknown field 'asm'" } });
+  assert.equal(
+    await withFetch([queryError, queryError], async () => {
+      await assert.rejects(api.query("net", { asm: 1 }), {
+        message: "PeeringDB net?asm=1 failed: Unknown field 'asm'",
+      });
+    }),
+    1,
+  );
+  const notFound = () => new Response("", { status: 404 });
+  assert.equal(
+    await withFetch([notFound, notFound], async () => {
+      await assert.rejects(api.query("ix", { id: 1 }), {
+        message: "PeeringDB ix?id=1 returned 404",
+      });
+    }),
+    1,
+  );
+});
@@ -0,0 +1,220 @@
+import type { CacheStatus } from "./caches.ts";
+import { kv } from "./kv.ts";
+import { CLOUDFLARE_AS } from "./config.ts";
+import { computeCheckResult } from "./check.ts";
+import { recordSnapshot } from "./history.ts";
+import { evaluateAlerts } from "./alerts.ts";
+import { listRequestedAsns } from "./watch.ts";
+import { SOURCE_NAMES, type SourceName, type SourceReport } from "./sources.ts";
+import type { CheckResult } from "./types.ts";
+
+export interface StoredResult {
+  result: CheckResult;
+  generatedAt: number;
+}
+
+// Why the last refresh of an AS stored nothing. Cleared by the next stored
+// result; it matters most before the first one, when there is nothing else
+// to show.
+export interface RefreshFailure {
+  error: string;
+  at: number;
+}
+
+// How often the scheduler recomputes the result. Requests that find an older
+// result still get it immediately and kick off a refresh in the background.
+export const REFRESH_INTERVAL = 1800_000; // 30 min
+
+const inFlight = new Map<number, Promise<StoredResult | null>>();
+// Alert evaluation, webhooks included, runs after the refresh that stored
+// the result; evaluations still queue up so their firing state never races.
+let alerting: Promise<void> = Promise.resolve();
+
+export async function getLatestResult(
+  asn: number = CLOUDFLARE_AS,
+): Promise<StoredResult | null> {
+  const entry = await kv.get<StoredResult>(["result", asn]);
+  return entry.value;
+}
+
+export async function getRefreshFailure(
+  asn: number,
+): Promise<RefreshFailure | null> {
+  const entry = await kv.get<RefreshFailure>(["refresh", "failure", asn]);
+  return entry.value;
+}
+
+async function recordRefreshFailure(asn: number, error: string) {
+  await kv.set(
+    ["refresh", "failure", asn],
+    { error, at: Date.now() } satisfies RefreshFailure,
+    // Watched ASNs are refreshed again within the interval anyway.
+    { expireIn: REFRESH_INTERVAL },
+  );
+}
+
+export function isRefreshing(asn: number = CLOUDFLARE_AS): boolean {
+  return inFlight.has(asn);
+}
+
+// A stored result as served by /api/check and pushed by /api/events.
+export function presentResult(
+  asn: number,
+  stored: StoredResult,
+  sources: Record<SourceName, SourceReport | null>,
+  now = Date.now(),
+) {
+  const ageMs = now - stored.generatedAt;
+  return {
+    ...stored.result,
+    generatedAt: stored.generatedAt,
+    ageMs,
+    stale: ageMs > REFRESH_INTERVAL,
+    refreshing: isRefreshing(asn),
+    sources,
+  };
+}
+
+// Conditional GET validators for a result as served by /api/check. The body
+// also carries source status, so the validators cover each source's last
+// success and failure. Attempts and ages are left out: they change without
+// anything new to report.
+export function resultValidators(
+  asn: number,
+  stored: StoredResult,
+  sources: Record<SourceName, SourceReport | null>,
+): { etag: string; lastModified: number } {
+  let lastModified = stored.generatedAt;
+  const tags = [asn.toString(), stored.generatedAt.toString(36)];
+  for (const name of SOURCE_NAMES) {
+    const report = sources[name];
+    const changes = [report?.lastSuccess ?? 0, report?.lastErrorAt ?? 0];
+    lastModified = Math.max(lastModified, ...changes);
+    tags.push(changes.map((t) => t.toString(36)).join("."));
+  }
+  return { etag: `W/"${tags.join("-")}"`, lastModified };
+}
+
+// Whether a request's If-None-Match or, failing that, If-Modified-Since
+// header still matches.
+export function isNotModified(
+  req: Request,
+  { etag, lastModified }: { etag: string; lastModified: number },
+): boolean {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    // Weak comparison (RFC 9110 section 13.1.2).
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.trim() === "*" ||
+      ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+  const ifModifiedSince = Date.parse(
+    req.headers.get("If-Modified-Since") ?? "",
+  );
+  // HTTP dates have whole seconds.
+  return !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified / 1000) * 1000 <= ifModifiedSince;
+}
+
+// Recompute the CheckResult for `asn`, sharing one run between concurrent
+// callers. Resolves to null when the refresh failed or produced unusable
+// data; the previously stored result is left untouched in that case.
+export function refreshResult(
+  asn: number = CLOUDFLARE_AS,
+): Promise<StoredResult | null> {
+  let refresh = inFlight.get(asn);
+  if (!refresh) {
+    refresh = runRefresh(asn).finally(() => inFlight.delete(asn));
+    inFlight.set(asn, refresh);
+  }
+  return refresh;
+}
+
+// Like refreshResult, but never joins a run that started before the call:
+// that one may still be using caches which were just expired.
+export async function forceRefresh(
+  asn: number = CLOUDFLARE_AS,
+): Promise<StoredResult | null> {
+  await inFlight.get(asn);
+  return await refreshResult(asn);
+}
+
+// Refresh Cloudflare and every added ASN.
+export async function refreshAll(): Promise<void> {
+  await refreshResult(CLOUDFLARE_AS);
+  for (const asn of await listRequestedAsns()) {
+    await refreshResult(asn);
+  }
+}
+
+async function runRefresh(asn: number): Promise<StoredResult | null> {
+  try {
+    const { result, prefixes } = await computeCheckResult(asn);
+
+    // Only keep results with valid CF data
+    if (
+      result.cfIxpsGlobal === 0 ||
+      (asn === CLOUDFLARE_AS && result.bgp.total === 0)
+    ) {
+      console.warn(`Refresh of AS${asn} incomplete, keeping last result`);
+      await recordRefreshFailure(
+        asn,
+        result.cfIxpsGlobal === 0
+          ? "No PeeringDB data for Cloudflare"
+          : "No prefixes in the BGP table",
+      );
+      return null;
+    }
+
+    const stored: StoredResult = { result, generatedAt: Date.now() };
+    await kv.set(["result", asn], stored);
+    await kv.delete(["refresh", "failure", asn]);
+
+    // History and alerts track Cloudflare only.
+    if (asn === CLOUDFLARE_AS) {
+      await recordSnapshot(result, stored.generatedAt);
+      alerting = alerting
+        .then(() => evaluateAlerts(result, prefixes))
+        .then(
+          () => {},
+          (err) => console.error("Alert evaluation failed:", err),
+        );
+    }
+    return stored;
+  } catch (err) {
+    console.error(`Refresh of AS${asn} failed:`, err);
+    await recordRefreshFailure(
+      asn,
+      err instanceof Error ? err.message : "Refresh failed",
+    ).catch(() => {});
+    return null;
+  }
+}
+
+// Stored results, one per monitored ASN. A result older than the refresh
+// interval is still served while the next one is computed.
+export async function resultCacheStatus(
+  now = Date.now(),
+): Promise<CacheStatus> {
+  let entries = 0;
+  let bytes = 0;
+  let stale = 0;
+  let oldest: number | null = null;
+  for await (const entry of kv.list<StoredResult>({ prefix: ["result"] })) {
+    entries++;
+    bytes += JSON.stringify(entry.value).length;
+    const { generatedAt } = entry.value;
+    if (now - generatedAt > REFRESH_INTERVAL) stale++;
+    if (oldest === null || generatedAt < oldest) oldest = generatedAt;
+  }
+  return {
+    name: "result",
+    storage: "kv",
+    ttlMs: REFRESH_INTERVAL,
+    ageMs: oldest === null ? null : now - oldest,
+    expired: stale > 0,
+    entries,
+    bytes,
+    details: { staleEntries: stale, refreshing: inFlight.size },
+  };
+}
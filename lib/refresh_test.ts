@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { computeIxpPresence, networksFor } from "./check.ts";
+import { CURATED_REGION } from "./ixps.ts";
+import { kv } from "./kv.ts";
+import {
+  isNotModified,
+  resultValidators,
+  type StoredResult,
+} from "./refresh.ts";
+import {
+  getSourceReports,
+  recordSourceError,
+  recordSourceSuccess,
+} from "./sources.ts";
+import type { CheckResult } from "./types.ts";
+
+const VALIDATORS = {
+  etag: 'W/"13335-abc-def"',
+  // 2026-10-19T12:00:00.750Z
+  lastModified: Date.UTC(2026, 9, 19, 12, 0, 0, 750),
+};
+
+function request(headers: Record<string, string>): Request {
+  return new Request("http://localhost/api/check", { headers });
+}
+
+Deno.test("isNotModified compares entity tags weakly", () => {
+  const matches = (ifNoneMatch: string) =>
+    isNotModified(request({ "If-None-Match": ifNoneMatch }), VALIDATORS);
+  assert.equal(matches('W/"13335-abc-def"'), true);
+  assert.equal(matches('"13335-abc-def"'), true);
+  assert.equal(matches('"other", W/"13335-abc-def"'), true);
+  assert.equal(matches("*"), true);
+  assert.equal(matches('W/"13335-abc-000"'), false);
+});
+
+Deno.test("isNotModified falls back to If-Modified-Since", () => {
+  const since = (date: string, extra: Record<string, string> = {}) =>
+    isNotModified(
+      request({ "If-Modified-Since": date, ...extra }),
+      VALIDATORS,
+    );
+  // HTTP dates drop the milliseconds of the last modification.
+  assert.equal(since("Mon, 19 Oct 2026 12:00:00 GMT"), true);
+  assert.equal(since("Mon, 19 Oct 2026 13:00:00 GMT"), true);
+  assert.equal(since("Mon, 19 Oct 2026 11:59:59 GMT"), false);
+  assert.equal(since("yesterday"), false);
+  // If-None-Match wins when both are sent.
+  assert.equal(
+    since("Mon, 19 Oct 2026 13:00:00 GMT", { "If-None-Match": '"stale"' }),
+    false,
+  );
+  assert.equal(isNotModified(request({}), VALIDATORS), false);
+});
+
+Deno.test("validators only change with source successes and failures", async () => {
+  // A private-use ASN, compared with the usual networks, all cached.
+  const asn = 4_220_000_000;
+  const keys = networksFor(asn).map((n) => ["peeringdb", "asn", n.asn]);
+  for (const key of keys) {
+    await kv.set(key, { ixIds: [26], ports: [], fetchedAt: Date.now() });
+  }
+  await recordSourceSuccess("peeringdb", 10);
+  // Only the generation time of the result is part of the validators.
+  const stored: StoredResult = {
+    result: {} as CheckResult,
+    generatedAt: Date.now(),
+  };
+  const validators = async () =>
+    resultValidators(asn, stored, await getSourceReports());
+  try {
+    const before = await validators();
+    await computeIxpPresence(asn, {
+      region: CURATED_REGION,
+      country: null,
+      ids: null,
+    });
+    assert.deepEqual(await validators(), before);
+
+    await recordSourceError("peeringdb", "PeeringDB net failed", 10);
+    assert.notEqual((await validators()).etag, before.etag);
+  } finally {
+    for (const key of keys) await kv.delete(key);
+  }
+});
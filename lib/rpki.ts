@@ -0,0 +1,160 @@
+import type { CacheStatus } from "./caches.ts";
+import { USER_AGENT, VRP_SOURCE } from "./config.ts";
+import {
+  type IpFamily,
+  maskWords,
+  type ParsedPrefix,
+  parsePrefix,
+} from "./ip.ts";
+import { readJsonArray } from "./jsonl.ts";
+import { recordSourceError, recordSourceSuccess } from "./sources.ts";
+import type { RpkiStatus } from "./types.ts";
+
+// Validated ROA payloads indexed by prefix. Each value is a flat list of
+// [asn, maxLength] pairs, which keeps the ~700k VRPs of a full export small.
+export interface VrpIndex {
+  byPrefix: Map<string, number[]>;
+  count: number;
+  fetchedAt: number;
+}
+
+let vrpCache: VrpIndex | null = null;
+let vrpDownload: Promise<VrpIndex | null> | null = null;
+const VRP_CACHE_TTL = 3600_000; // 1h
+let vrpExpiredAt = 0;
+
+function vrpsExpired(now: number): boolean {
+  return !vrpCache || now - vrpCache.fetchedAt >= VRP_CACHE_TTL ||
+    vrpCache.fetchedAt <= vrpExpiredAt;
+}
+
+function indexKey(family: IpFamily, words: Uint32Array, length: number) {
+  return `${family}:${maskWords(words, length).join(".")}/${length}`;
+}
+
+// rpki-client writes { "roas": [{ "asn": 13335, "prefix", "maxLength" }] };
+// Routinator's jsonext has the same shape with "asn": "AS13335".
+interface RoaEntry {
+  asn?: number | string;
+  prefix?: string;
+  maxLength?: number;
+}
+
+// Add one ROA to `byPrefix`. False when it is malformed.
+function addRoa(byPrefix: Map<string, number[]>, roa: RoaEntry): boolean {
+  const asn = typeof roa?.asn === "string"
+    ? Number(roa.asn.replace(/^AS/i, ""))
+    : roa?.asn;
+  const prefix = typeof roa?.prefix === "string"
+    ? parsePrefix(roa.prefix)
+    : null;
+  if (asn === undefined || !Number.isInteger(asn) || !prefix) return false;
+  const key = indexKey(prefix.family, prefix.words, prefix.length);
+  const list = byPrefix.get(key);
+  const vrp = [asn, roa.maxLength ?? prefix.length];
+  if (list) list.push(...vrp);
+  else byPrefix.set(key, vrp);
+  return true;
+}
+
+// Index a VRP export. A full one is around 100MB, so the roas array is
+// parsed one ROA at a time rather than as a whole document.
+export async function readVrps(
+  body: ReadableStream<BufferSource>,
+  now: number,
+): Promise<VrpIndex> {
+  const byPrefix = new Map<string, number[]>();
+  let count = 0;
+  const found = await readJsonArray(body, "roas", (roa) => {
+    if (addRoa(byPrefix, roa as RoaEntry)) count++;
+  });
+  if (!found) throw new Error("VRP export has no roas array");
+  if (count === 0) throw new Error("VRP export is empty");
+  return { byPrefix, count, fetchedAt: now };
+}
+
+async function downloadVrps(now: number): Promise<VrpIndex> {
+  if (!/^https?:\/\//.test(VRP_SOURCE)) {
+    const file = await Deno.open(VRP_SOURCE);
+    return await readVrps(file.readable, now);
+  }
+  const resp = await fetch(VRP_SOURCE, {
+    headers: { "User-Agent": USER_AGENT },
+  });
+  if (!resp.ok || !resp.body) {
+    await resp.body?.cancel();
+    throw new Error(`VRP export returned ${resp.status}`);
+  }
+  return await readVrps(resp.body, now);
+}
+
+async function refreshVrps(): Promise<VrpIndex | null> {
+  const now = Date.now();
+  const start = performance.now();
+  try {
+    vrpCache = await downloadVrps(now);
+    await recordSourceSuccess("rpki", performance.now() - start, now, {
+      vrps: vrpCache.count,
+    });
+  } catch (err) {
+    await recordSourceError("rpki", err, performance.now() - start);
+    console.warn(
+      `VRP refresh failed, ${vrpCache ? "using cached VRPs" : "no VRPs"}:`,
+      err,
+    );
+  }
+  return vrpCache;
+}
+
+// The current VRP set, or null when RPKI validation is disabled (VRP_SOURCE
+// is empty) or no export could ever be loaded.
+export async function fetchVrps(): Promise<VrpIndex | null> {
+  if (!VRP_SOURCE) return null;
+  if (!vrpsExpired(Date.now())) return vrpCache;
+  vrpDownload ??= refreshVrps().finally(() => {
+    vrpDownload = null;
+  });
+  return await vrpDownload;
+}
+
+// Make the next fetchVrps download the export again, keeping the current set
+// in case that fails.
+export function expireVrps(now = Date.now()): void {
+  vrpExpiredAt = now;
+}
+
+export function vrpCacheStatus(now = Date.now()): CacheStatus {
+  return {
+    name: "rpki",
+    storage: "memory",
+    ttlMs: VRP_CACHE_TTL,
+    ageMs: vrpCache && now - vrpCache.fetchedAt,
+    expired: vrpsExpired(now),
+    entries: vrpCache?.count ?? 0,
+  };
+}
+
+// Route origin validation as in RFC 6811: valid if a covering VRP matches
+// the origin and allows the prefix length, invalid if VRPs cover the prefix
+// but none match, not-found if no VRP covers it.
+export function validateOrigin(
+  index: VrpIndex,
+  prefix: ParsedPrefix,
+  origin: number,
+): RpkiStatus {
+  let covered = false;
+  for (let length = 0; length <= prefix.length; length++) {
+    const vrps = index.byPrefix.get(
+      indexKey(prefix.family, prefix.words, length),
+    );
+    if (!vrps) continue;
+    covered = true;
+    for (let i = 0; i < vrps.length; i += 2) {
+      // AS0 VRPs only ever make a route invalid (RFC 6483).
+      if (vrps[i] === origin && origin !== 0 && prefix.length <= vrps[i + 1]) {
+        return "valid";
+      }
+    }
+  }
+  return covered ? "invalid" : "not-found";
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { parsePrefix } from "./ip.ts";
+import { readVrps, validateOrigin, type VrpIndex } from "./rpki.ts";
+
+function stream(text: string, size = 5): ReadableStream<BufferSource> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset += size));
+    },
+  });
+}
+
+async function vrps(text: string): Promise<VrpIndex> {
+  return await readVrps(stream(text), 0);
+}
+
+function validate(index: VrpIndex, prefix: string, origin: number) {
+  return validateOrigin(index, parsePrefix(prefix)!, origin);
+}
+
+Deno.test("readVrps indexes rpki-client and Routinator exports", async () => {
+  const fixture = await Deno.readTextFile(
+    new URL("../fixtures/vrps.json", import.meta.url),
+  );
+  assert.equal((await vrps(fixture)).count, 7);
+
+  const routinator = await vrps(
+    '{"roas": [{"asn": "AS13335", "prefix": "1.1.1.0/24", "maxLength": 24},' +
+      ' {"asn": "ASx", "prefix": "1.0.0.0/24"}, {"prefix": "1.0.0.0/24"}]}',
+  );
+  assert.equal(routinator.count, 1);
+  assert.equal(validate(routinator, "1.1.1.0/24", 13335), "valid");
+
+  await assert.rejects(vrps('{"vrps": []}'), {
+    message: "VRP export has no roas array",
+  });
+  await assert.rejects(vrps('{"roas": [{"asn": 1}]}'), {
+    message: "VRP export is empty",
+  });
+});
+
+Deno.test("validateOrigin follows RFC 6811", async () => {
+  const index = await vrps(
+    JSON.stringify({
+      roas: [
+        { asn: 13335, prefix: "104.16.0.0/12", maxLength: 20 },
+        { asn: 209242, prefix: "104.16.0.0/13", maxLength: 24 },
+        { asn: 13335, prefix: "2606:4700::/32" },
+        { asn: 0, prefix: "192.0.2.0/24", maxLength: 32 },
+      ],
+    }),
+  );
+  // Matching origin within maxLength.
+  assert.equal(validate(index, "104.16.0.0/12", 13335), "valid");
+  assert.equal(validate(index, "104.16.0.0/20", 13335), "valid");
+  // Too specific for the origin's VRP, not for the other AS's.
+  assert.equal(validate(index, "104.16.0.0/24", 13335), "invalid");
+  assert.equal(validate(index, "104.16.0.0/24", 209242), "valid");
+  // Covered, but no VRP for the origin.
+  assert.equal(validate(index, "104.24.0.0/14", 64496), "invalid");
+  // maxLength defaults to the prefix length.
+  assert.equal(validate(index, "2606:4700::/32", 13335), "valid");
+  assert.equal(validate(index, "2606:4700::/36", 13335), "invalid");
+  // A less specific announcement than the VRP is not covered.
+  assert.equal(validate(index, "104.0.0.0/8", 13335), "not-found");
+  assert.equal(validate(index, "1.1.1.0/24", 13335), "not-found");
+  // AS0 never validates, not even for origin 0.
+  assert.equal(validate(index, "192.0.2.0/24", 0), "invalid");
+});
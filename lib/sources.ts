@@ -0,0 +1,82 @@
+import { kv } from "./kv.ts";
+
+// Upstream data sources whose freshness is reported to clients.
+export type SourceName = "bgp" | "peeringdb" | "rpki" | "irr";
+
+export interface SourceStatus {
+  lastSuccess: number | null;
+  lastAttempt: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  durationMs: number;
+  // Failed fetches since the source was first recorded.
+  errors?: number;
+  // Source-specific counters from the last successful fetch.
+  stats?: Record<string, number>;
+}
+
+export interface SourceReport extends SourceStatus {
+  // Milliseconds since the last successful fetch, null if there never was one.
+  ageMs: number | null;
+}
+
+export const SOURCE_NAMES: SourceName[] = ["bgp", "peeringdb", "rpki", "irr"];
+
+export async function recordSourceSuccess(
+  name: SourceName,
+  durationMs: number,
+  now = Date.now(),
+  stats?: Record<string, number>,
+): Promise<void> {
+  const previous = await kv.get<SourceStatus>(["sources", name]);
+  await kv.set(
+    ["sources", name],
+    {
+      lastSuccess: now,
+      lastAttempt: Date.now(),
+      lastError: previous.value?.lastError ?? null,
+      lastErrorAt: previous.value?.lastErrorAt ?? null,
+      durationMs,
+      errors: previous.value?.errors ?? 0,
+      stats,
+    } satisfies SourceStatus,
+  );
+}
+
+export async function recordSourceError(
+  name: SourceName,
+  error: unknown,
+  durationMs: number,
+  now = Date.now(),
+): Promise<void> {
+  const previous = await kv.get<SourceStatus>(["sources", name]);
+  await kv.set(
+    ["sources", name],
+    {
+      lastSuccess: previous.value?.lastSuccess ?? null,
+      lastAttempt: now,
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: now,
+      durationMs,
+      errors: (previous.value?.errors ?? 0) + 1,
+      stats: previous.value?.stats,
+    } satisfies SourceStatus,
+  );
+}
+
+export async function getSourceReports(
+  now = Date.now(),
+): Promise<Record<SourceName, SourceReport | null>> {
+  const entries = await kv.getMany<SourceStatus[]>(
+    SOURCE_NAMES.map((name) => ["sources", name]),
+  );
+  const reports = {} as Record<SourceName, SourceReport | null>;
+  SOURCE_NAMES.forEach((name, i) => {
+    const status = entries[i].value;
+    reports[name] = status && {
+      ...status,
+      ageMs: status.lastSuccess === null ? null : now - status.lastSuccess,
+    };
+  });
+  return reports;
+}
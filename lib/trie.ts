@@ -0,0 +1,225 @@
+import { bitAt, formatAddress, type IpFamily, maskWords } from "./ip.ts";
+
+export interface TrieRoute {
+  prefix: string;
+  asn: number;
+  hits: number;
+}
+
+const NONE = -1;
+const INITIAL_CAPACITY = 1024;
+
+// Path-compressed binary (Patricia) trie of announced prefixes for one
+// address family. With the full table loaded it holds about a million
+// routes, so nodes live in typed arrays rather than one object each:
+// node `n` has its address at words[n * width ..], its prefix length at
+// lengths[n] and its children at zero[n] / one[n]. Nodes without a route are
+// branching points only (asn 0).
+//
+// Several origins may announce the same prefix (MOAS); the trie keeps the one
+// seen by the most peers.
+export class PrefixTrie {
+  readonly family: IpFamily;
+  private width: number;
+  private size = 0;
+  private root = NONE;
+  private words: Uint32Array;
+  private lengths: Uint8Array;
+  private zero: Int32Array;
+  private one: Int32Array;
+  private asns: Uint32Array;
+  private hits: Uint32Array;
+  routes = 0;
+
+  constructor(family: IpFamily) {
+    this.family = family;
+    this.width = family === "v4" ? 1 : 4;
+    this.words = new Uint32Array(INITIAL_CAPACITY * this.width);
+    this.lengths = new Uint8Array(INITIAL_CAPACITY);
+    this.zero = new Int32Array(INITIAL_CAPACITY);
+    this.one = new Int32Array(INITIAL_CAPACITY);
+    this.asns = new Uint32Array(INITIAL_CAPACITY);
+    this.hits = new Uint32Array(INITIAL_CAPACITY);
+  }
+
+  private grow() {
+    const capacity = this.lengths.length * 2;
+    const resize = <T extends Uint32Array | Uint8Array | Int32Array>(
+      old: T,
+      make: (n: number) => T,
+      n: number,
+    ) => {
+      const next = make(n);
+      next.set(old);
+      return next;
+    };
+    this.words = resize(
+      this.words,
+      (n) => new Uint32Array(n),
+      capacity * this.width,
+    );
+    this.lengths = resize(this.lengths, (n) => new Uint8Array(n), capacity);
+    this.zero = resize(this.zero, (n) => new Int32Array(n), capacity);
+    this.one = resize(this.one, (n) => new Int32Array(n), capacity);
+    this.asns = resize(this.asns, (n) => new Uint32Array(n), capacity);
+    this.hits = resize(this.hits, (n) => new Uint32Array(n), capacity);
+  }
+
+  private addNode(
+    words: Uint32Array,
+    length: number,
+    asn: number,
+    hits: number,
+  ): number {
+    if (this.size === this.lengths.length) this.grow();
+    const n = this.size++;
+    this.words.set(maskWords(words, length), n * this.width);
+    this.lengths[n] = length;
+    this.zero[n] = NONE;
+    this.one[n] = NONE;
+    this.asns[n] = asn;
+    this.hits[n] = hits;
+    if (asn !== 0) this.routes++;
+    return n;
+  }
+
+  private bit(node: number, index: number): number {
+    return (this.words[node * this.width + (index >>> 5)] >>>
+      (31 - (index & 31))) & 1;
+  }
+
+  // Number of leading bits `node` and `key` share, capped at `limit`.
+  private commonBits(node: number, key: Uint32Array, limit: number): number {
+    const base = node * this.width;
+    for (let i = 0; i * 32 < limit; i++) {
+      const diff = (this.words[base + i] ^ key[i]) >>> 0;
+      if (diff !== 0) return Math.min(i * 32 + Math.clz32(diff), limit);
+    }
+    return limit;
+  }
+
+  private child(node: number, bit: number): number {
+    return bit ? this.one[node] : this.zero[node];
+  }
+
+  private setChild(node: number, bit: number, child: number) {
+    if (bit) this.one[node] = child;
+    else this.zero[node] = child;
+  }
+
+  insert(key: Uint32Array, length: number, asn: number, hits: number) {
+    if (this.root === NONE) {
+      this.root = this.addNode(key, length, asn, hits);
+      return;
+    }
+
+    let parent = NONE;
+    let parentBit = 0;
+    let node = this.root;
+    while (true) {
+      const nodeLength = this.lengths[node];
+      const common = this.commonBits(node, key, Math.min(nodeLength, length));
+
+      if (common < nodeLength) {
+        // The key branches off inside this node's prefix: put a new node at
+        // the branching point, above `node`.
+        let replacement: number;
+        if (common === length) {
+          replacement = this.addNode(key, length, asn, hits);
+          this.setChild(replacement, this.bit(node, length), node);
+        } else {
+          replacement = this.addNode(key, common, 0, 0);
+          const leaf = this.addNode(key, length, asn, hits);
+          this.setChild(replacement, bitAt(key, common), leaf);
+          this.setChild(replacement, this.bit(node, common), node);
+        }
+        if (parent === NONE) this.root = replacement;
+        else this.setChild(parent, parentBit, replacement);
+        return;
+      }
+
+      if (nodeLength === length) {
+        if (this.asns[node] === 0) {
+          this.routes++;
+          this.asns[node] = asn;
+          this.hits[node] = hits;
+        } else if (hits > this.hits[node]) {
+          this.asns[node] = asn;
+          this.hits[node] = hits;
+        }
+        return;
+      }
+
+      const bit = bitAt(key, nodeLength);
+      const next = this.child(node, bit);
+      if (next === NONE) {
+        this.setChild(node, bit, this.addNode(key, length, asn, hits));
+        return;
+      }
+      parent = node;
+      parentBit = bit;
+      node = next;
+    }
+  }
+
+  private route(node: number): TrieRoute {
+    const base = node * this.width;
+    const words = this.words.subarray(base, base + this.width);
+    return {
+      prefix: `${formatAddress(this.family, words)}/${this.lengths[node]}`,
+      asn: this.asns[node],
+      hits: this.hits[node],
+    };
+  }
+
+  // Routes covering `key`/`length`, least specific first. The last one is the
+  // longest-prefix match.
+  covering(key: Uint32Array, length: number): TrieRoute[] {
+    const routes: TrieRoute[] = [];
+    let node = this.root;
+    while (node !== NONE) {
+      const nodeLength = this.lengths[node];
+      if (nodeLength > length) break;
+      if (this.commonBits(node, key, nodeLength) < nodeLength) break;
+      if (this.asns[node] !== 0) routes.push(this.route(node));
+      if (nodeLength === length) break;
+      node = this.child(node, bitAt(key, nodeLength));
+    }
+    return routes;
+  }
+
+  // Routes strictly inside `key`/`length`, in address order. Stops after
+  // `limit` routes; `total` still counts all of them.
+  moreSpecifics(
+    key: Uint32Array,
+    length: number,
+    limit: number,
+  ): { routes: TrieRoute[]; total: number } {
+    // Find the first node at or below `length` that lies within the prefix.
+    let node = this.root;
+    while (node !== NONE && this.lengths[node] < length) {
+      const nodeLength = this.lengths[node];
+      if (this.commonBits(node, key, nodeLength) < nodeLength) {
+        return { routes: [], total: 0 };
+      }
+      node = this.child(node, bitAt(key, nodeLength));
+    }
+    if (node === NONE || this.commonBits(node, key, length) < length) {
+      return { routes: [], total: 0 };
+    }
+
+    const routes: TrieRoute[] = [];
+    let total = 0;
+    const stack = [node];
+    while (stack.length > 0) {
+      const n = stack.pop()!;
+      if (this.asns[n] !== 0 && this.lengths[n] > length) {
+        total++;
+        if (routes.length < limit) routes.push(this.route(n));
+      }
+      if (this.one[n] !== NONE) stack.push(this.one[n]);
+      if (this.zero[n] !== NONE) stack.push(this.zero[n]);
+    }
+    return { routes, total };
+  }
+}
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import {
+  comparePrefixes,
+  formatPrefix,
+  type IpFamily,
+  type ParsedPrefix,
+  parsePrefix,
+  prefixContains,
+} from "./ip.ts";
+import { PrefixTrie } from "./trie.ts";
+
+function trieOf(family: IpFamily, routes: [string, number, number][]) {
+  const trie = new PrefixTrie(family);
+  for (const [prefix, asn, hits] of routes) {
+    const p = parsePrefix(prefix)!;
+    trie.insert(p.words, p.length, asn, hits);
+  }
+  return trie;
+}
+
+function covering(trie: PrefixTrie, prefix: string): string[] {
+  const p = parsePrefix(prefix)!;
+  return trie.covering(p.words, p.length).map((r) => `${r.prefix} ${r.asn}`);
+}
+
+function moreSpecifics(trie: PrefixTrie, prefix: string, limit = 100) {
+  const p = parsePrefix(prefix)!;
+  const { routes, total } = trie.moreSpecifics(p.words, p.length, limit);
+  return { routes: routes.map((r) => r.prefix), total };
+}
+
+const V4 = trieOf("v4", [
+  ["104.16.0.0/13", 13335, 2800],
+  ["104.16.0.0/20", 13335, 2500],
+  ["104.16.128.0/20", 13335, 2400],
+  ["104.17.0.0/16", 209242, 900],
+  // Inserted above existing nodes.
+  ["104.0.0.0/8", 64496, 100],
+  ["0.0.0.0/0", 64497, 10],
+]);
+
+Deno.test("covering lists every route containing a prefix", () => {
+  assert.deepEqual(covering(V4, "104.16.1.0/24"), [
+    "0.0.0.0/0 64497",
+    "104.0.0.0/8 64496",
+    "104.16.0.0/13 13335",
+    "104.16.0.0/20 13335",
+  ]);
+  assert.deepEqual(covering(V4, "104.16.0.0/20"), [
+    "0.0.0.0/0 64497",
+    "104.0.0.0/8 64496",
+    "104.16.0.0/13 13335",
+    "104.16.0.0/20 13335",
+  ]);
+  assert.deepEqual(covering(V4, "8.8.8.0/24"), ["0.0.0.0/0 64497"]);
+  assert.equal(V4.routes, 6);
+});
+
+Deno.test("moreSpecifics walks routes inside a prefix in address order", () => {
+  assert.deepEqual(moreSpecifics(V4, "104.16.0.0/13"), {
+    routes: ["104.16.0.0/20", "104.16.128.0/20", "104.17.0.0/16"],
+    total: 3,
+  });
+  assert.deepEqual(moreSpecifics(V4, "104.16.0.0/13", 1), {
+    routes: ["104.16.0.0/20"],
+    total: 3,
+  });
+  // Starting between nodes: 104.16.0.0/14 is not itself a route.
+  assert.deepEqual(moreSpecifics(V4, "104.16.0.0/14").total, 3);
+  assert.deepEqual(moreSpecifics(V4, "104.24.0.0/13"), {
+    routes: [],
+    total: 0,
+  });
+});
+
+Deno.test("MOAS prefixes keep the origin seen by the most peers", () => {
+  const trie = trieOf("v6", [
+    ["2606:4700::/32", 64496, 10],
+    ["2606:4700::/32", 13335, 2900],
+    ["2606:4700::/32", 64497, 20],
+  ]);
+  assert.deepEqual(covering(trie, "2606:4700:10::/44"), [
+    "2606:4700::/32 13335",
+  ]);
+  assert.equal(trie.routes, 1);
+});
+
+Deno.test("PrefixTrie agrees with a linear scan", () => {
+  // Deterministic pseudo-random prefixes (xorshift), enough to outgrow the
+  // initial capacity.
+  let state = 42;
+  const random = (n: number) => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) % n;
+  };
+  const randomPrefix = (length: number) =>
+    parsePrefix(
+      `${10 + random(4)}.${random(4)}.${random(256)}.${random(256)}/${length}`,
+    )!;
+
+  const unique = new Map<string, ParsedPrefix>();
+  for (let i = 0; i < 3000; i++) {
+    const p = randomPrefix(8 + random(25));
+    unique.set(formatPrefix(p), p);
+  }
+  const prefixes = [...unique.values()];
+  const trie = new PrefixTrie("v4");
+  prefixes.forEach((p, i) => trie.insert(p.words, p.length, i + 1, 1));
+  assert.equal(trie.routes, prefixes.length);
+
+  for (let i = 0; i < 200; i++) {
+    const query = randomPrefix(24);
+    assert.equal(
+      trie.covering(query.words, query.length).length,
+      prefixes.filter((p) => prefixContains(p, query)).length,
+    );
+
+    const wide = randomPrefix(16);
+    const { routes, total } = trie.moreSpecifics(wide.words, wide.length, 5);
+    const inside = prefixes
+      .filter((p) => p.length > 16 && prefixContains(wide, p))
+      .sort(comparePrefixes);
+    assert.equal(total, inside.length);
+    assert.deepEqual(
+      routes.map((r) => r.prefix),
+      inside.slice(0, 5).map(formatPrefix),
+    );
+  }
+});
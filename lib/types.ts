@@ -0,0 +1,93 @@
+// Shapes returned by `GET /api/check` and persisted in KV.
+
+// One connection of a network to an IXP's peering LAN.
+export interface IxPort {
+  // Mbps, as reported by PeeringDB.
+  speed: number;
+  ipv4: string | null;
+  ipv6: string | null;
+  rsPeer: boolean;
+  operational: boolean;
+}
+
+// How much a network's PeeringDB data can be trusted: "stale" is served from
+// an expired cache after PeeringDB failed, "unknown" means there was no data
+// at all and `present: false` is not a real absence.
+export type DataStatus = "fresh" | "stale" | "unknown";
+
+export interface NetworkPresence {
+  asn: number;
+  name: string;
+  present: boolean;
+  dataStatus: DataStatus;
+  ports: IxPort[];
+  // Sum of all port speeds at this IXP, in Mbps.
+  totalSpeed: number;
+  // Peers with the IXP route servers on at least one port.
+  rsPeer: boolean;
+}
+
+export interface IxpResult {
+  id: number;
+  name: string;
+  country: string;
+  networks: NetworkPresence[];
+}
+
+// RFC 6811 route origin validation state.
+export type RpkiStatus = "valid" | "invalid" | "not-found";
+
+export interface CfPrefixInfo {
+  prefix: string;
+  type: "v4" | "v6";
+  visibility: number;
+  mask: number;
+  // Null when no VRP set was available.
+  rpki: RpkiStatus | null;
+  // Least specific announcement of the same AS covering this prefix, if any.
+  coveredBy: string | null;
+}
+
+export interface RpkiSummary {
+  valid: number;
+  invalid: number;
+  notFound: number;
+}
+
+// Counts only; the prefix lists are served by /api/address-space.
+export interface AddressSpaceSummary {
+  v4Addresses: number;
+  v6Slash48s: number;
+  moreSpecifics: number;
+  aggregates: number;
+}
+
+export interface VisibilityBucket {
+  label: string;
+  min: number;
+  count: number;
+}
+
+export interface CheckResult {
+  // Origin AS the BGP stats and ixpsGlobal are about.
+  asn: number;
+  name: string;
+  ixps: IxpResult[];
+  bgp: {
+    total: number;
+    v4: number;
+    v6: number;
+    avgVisibility: number;
+    minVisibility: number;
+    maxVisibility: number;
+    // The least visible prefixes, at most 50 of lowVisibilityCount.
+    lowVisibility: CfPrefixInfo[];
+    lowVisibilityCount: number;
+    visibilityBuckets: VisibilityBucket[];
+    // Null when no VRP set was available.
+    rpki: RpkiSummary | null;
+    addressSpace: AddressSpaceSummary;
+  };
+  ixpsGlobal: number;
+  cfIxpsGlobal: number;
+}
@@ -0,0 +1,71 @@
+import { kv } from "./kv.ts";
+import { WATCHED_ASNS } from "./config.ts";
+
+// ASNs looked at through `/api/check` or added through `POST /api/watch`
+// stay watched for a week after they were last looked at or added, after
+// which their prefixes are no longer kept.
+const WATCH_TTL = 7 * 86400_000;
+// Every watched ASN grows the kept BGP entries, the scheduled refresh and
+// the stored results, so only this many can be added.
+export const MAX_REQUESTED_ASNS = 25;
+
+// Watch `asn`, or renew its watch. False when the limit is reached.
+export async function watchAsn(asn: number): Promise<boolean> {
+  if (WATCHED_ASNS.has(asn)) return true;
+  const existing = await kv.get(["watch", asn]);
+  if (
+    !existing.value &&
+    (await listRequestedAsns()).length >= MAX_REQUESTED_ASNS
+  ) {
+    return false;
+  }
+  await kv.set(["watch", asn], Date.now(), { expireIn: WATCH_TTL });
+  return true;
+}
+
+export async function unwatchAsn(asn: number): Promise<boolean> {
+  const existing = await kv.get(["watch", asn]);
+  if (!existing.value) return false;
+  await kv.delete(["watch", asn]);
+  return true;
+}
+
+// Whether `asn` is monitored: configured, or added and not expired.
+export async function isWatched(asn: number): Promise<boolean> {
+  if (WATCHED_ASNS.has(asn)) return true;
+  return (await kv.get(["watch", asn])).value !== null;
+}
+
+// Returns an error response when `asn` is not monitored, or null when the
+// caller may proceed. Routes reading the routing table for a caller-supplied
+// AS check this first: only watched origins are kept from the table, so any
+// other AS would force a fresh download.
+export async function requireWatched(asn: number): Promise<Response | null> {
+  if (await isWatched(asn)) return null;
+  return Response.json(
+    { success: false, error: `AS${asn} is not monitored` },
+    { status: 404 },
+  );
+}
+
+export async function listRequestedAsns(): Promise<number[]> {
+  const asns: number[] = [];
+  for await (
+    const entry of kv.list({ prefix: ["watch"] }, {
+      limit: MAX_REQUESTED_ASNS,
+    })
+  ) {
+    asns.push(entry.key[1] as number);
+  }
+  return asns;
+}
+
+export async function listWatchedAsns(): Promise<Set<number>> {
+  return new Set([...WATCHED_ASNS, ...await listRequestedAsns()]);
+}
+
+export function parseAsn(value: string | null): number | null {
+  if (value === null) return null;
+  const asn = Number(value.replace(/^AS/i, ""));
+  return Number.isInteger(asn) && asn > 0 && asn <= 4294967295 ? asn : null;
+}
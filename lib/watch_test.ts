@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import {
+  isWatched,
+  listRequestedAsns,
+  MAX_REQUESTED_ASNS,
+  parseAsn,
+  unwatchAsn,
+  watchAsn,
+} from "./watch.ts";
+import { CLOUDFLARE_AS } from "./config.ts";
+
+Deno.test("parseAsn accepts plain and AS-prefixed 32-bit ASNs", () => {
+  assert.equal(parseAsn("13335"), 13335);
+  assert.equal(parseAsn("as13335"), 13335);
+  assert.equal(parseAsn("4294967295"), 4294967295);
+  assert.equal(parseAsn("4294967296"), null);
+  assert.equal(parseAsn("0"), null);
+  assert.equal(parseAsn("1.5"), null);
+  assert.equal(parseAsn(null), null);
+});
+
+Deno.test("watchAsn stops at the limit of added ASNs", async () => {
+  const base = 4_200_000_000;
+  const added: number[] = [];
+  try {
+    assert.equal(await watchAsn(CLOUDFLARE_AS), true);
+    for (let i = 0; i < MAX_REQUESTED_ASNS; i++) {
+      assert.equal(await watchAsn(base + i), true);
+      added.push(base + i);
+    }
+    assert.equal(await watchAsn(base + MAX_REQUESTED_ASNS), false);
+    assert.equal(await isWatched(base + MAX_REQUESTED_ASNS), false);
+    // Renewing an existing watch is always possible.
+    assert.equal(await watchAsn(base), true);
+    assert.equal((await listRequestedAsns()).length, MAX_REQUESTED_ASNS);
+
+    assert.equal(await unwatchAsn(base), true);
+    assert.equal(await isWatched(base), false);
+    assert.equal(await unwatchAsn(base), false);
+  } finally {
+    for (const asn of added) await unwatchAsn(asn);
+  }
+});
@@ -1,5 +1,6 @@
 import { App, staticFiles } from "fresh";
 import { define, type State } from "./utils.ts";
+import { refreshAll } from "./lib/refresh.ts";
 
 export const app = new App<State>();
 
@@ -17,3 +18,9 @@ const loggerMiddleware = define.middleware((ctx) => {
 app.use(loggerMiddleware);
 
 app.fsRoutes();
+
+// Refresh BGP and PeeringDB data in the background so requests are served
+// from the last good result instead of waiting on the upstream sources.
+Deno.cron("refresh check result", "*/30 * * * *", async () => {
+  await refreshAll();
+});
@@ -0,0 +1,40 @@
+import { define } from "../../utils.ts";
+import { analyzeAddressSpace } from "../../lib/aggregate.ts";
+import { entriesForAsn, fetchBgpTable } from "../../lib/bgp.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { parseAsn, requireWatched } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      const table = await fetchBgpTable(asn);
+      return Response.json({
+        success: true,
+        asn,
+        ...analyzeAddressSpace(entriesForAsn(table, asn)),
+        tableAge: Date.now() - table.fetchedAt,
+      });
+    } catch (err) {
+      console.error("Address space failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Address space failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,33 @@
+import { define } from "../../../utils.ts";
+import { listAlertEvents } from "../../../lib/alerts.ts";
+
+const DEFAULT_WINDOW = 7 * 86400_000; // 7 days
+const MAX_LIMIT = 1000;
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const since = Number(params.get("since") ?? Date.now() - DEFAULT_WINDOW);
+    const limit = Math.min(Number(params.get("limit") ?? 200), MAX_LIMIT);
+    if (!Number.isFinite(since) || !Number.isInteger(limit) || limit < 1) {
+      return Response.json(
+        { success: false, error: "Invalid since or limit" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const events = await listAlertEvents(since, limit);
+      return Response.json({ success: true, since, events });
+    } catch (err) {
+      console.error("Alert history failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Alert history failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
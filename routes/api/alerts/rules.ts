@@ -0,0 +1,37 @@
+import { define } from "../../../utils.ts";
+import { requireAdmin } from "../../../lib/auth.ts";
+import { listRules, parseRule, saveRule } from "../../../lib/alerts.ts";
+
+// Rules include webhook URLs, which are secrets, so reading them is
+// token-protected as well.
+export const handler = define.handlers({
+  async GET(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+
+    const rules = await listRules();
+    return Response.json({ success: true, rules });
+  },
+
+  async POST(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await ctx.req.json();
+    } catch {
+      return Response.json(
+        { success: false, error: "Body must be JSON" },
+        { status: 400 },
+      );
+    }
+
+    const rule = parseRule(body);
+    if (typeof rule === "string") {
+      return Response.json({ success: false, error: rule }, { status: 400 });
+    }
+    await saveRule(rule);
+    return Response.json({ success: true, rule }, { status: 201 });
+  },
+});
@@ -0,0 +1,19 @@
+import { define } from "../../../../utils.ts";
+import { requireAdmin } from "../../../../lib/auth.ts";
+import { deleteRule } from "../../../../lib/alerts.ts";
+
+export const handler = define.handlers({
+  async DELETE(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+
+    const deleted = await deleteRule(ctx.params.id);
+    if (!deleted) {
+      return Response.json(
+        { success: false, error: "Rule not found" },
+        { status: 404 },
+      );
+    }
+    return Response.json({ success: true });
+  },
+});
@@ -0,0 +1,35 @@
+import { define } from "../../utils.ts";
+import { listPrefixChanges } from "../../lib/changes.ts";
+
+const DEFAULT_WINDOW = 86400_000; // 24h
+const MAX_LIMIT = 1000;
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const since = Number(params.get("since") ?? Date.now() - DEFAULT_WINDOW);
+    const limit = Math.min(Number(params.get("limit") ?? 200), MAX_LIMIT);
+    if (!Number.isFinite(since) || !Number.isInteger(limit) || limit < 1) {
+      return Response.json(
+        { success: false, error: "Invalid since or limit" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const changes = await listPrefixChanges(since, limit);
+      const counts = { announced: 0, withdrawn: 0, visibility: 0 };
+      for (const c of changes) counts[c.kind]++;
+      return Response.json({ success: true, since, counts, changes });
+    } catch (err) {
+      console.error("Changes failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Changes failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -1,294 +1,99 @@
 import { define } from "../../utils.ts";
+import {
+  getLatestResult,
+  getRefreshFailure,
+  isNotModified,
+  presentResult,
+  REFRESH_INTERVAL,
+  refreshResult,
+  resultValidators,
+} from "../../lib/refresh.ts";
+import { getSourceReports } from "../../lib/sources.ts";
+import { recordCacheLookup } from "../../lib/metrics.ts";
+import { MAX_REQUESTED_ASNS, parseAsn, watchAsn } from "../../lib/watch.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
 
-const USER_AGENT =
-  "cloudflare-network-monitor/1.0 - github.com/mikepage/cloudflare-network-monitor";
-
-const PEERINGDB_API_KEY = Deno.env.get("PEERINGDB_API_KEY") ?? "";
-
-const CLOUDFLARE_AS = 13335;
-
-interface BgpEntry {
-  CIDR: string;
-  ASN: number;
-  Hits: number;
-}
-
-// Regional IXPs — PeeringDB IX IDs
-interface RegionalIxp {
-  id: number;
-  name: string;
-  country: string;
-}
-
-const REGIONAL_IXPS: RegionalIxp[] = [
-  { id: 26, name: "AMS-IX", country: "NL" },
-  { id: 59, name: "BNIX", country: "BE" },
-  { id: 33, name: "CIXP", country: "CH" },
-  { id: 31, name: "DE-CIX FRA", country: "DE" },
-  { id: 74, name: "DE-CIX HAM", country: "DE" },
-  { id: 248, name: "DE-CIX MUC", country: "DE" },
-  { id: 63, name: "ESPANIX", country: "ES" },
-  { id: 359, name: "FranceIX PAR", country: "FR" },
-  { id: 18, name: "LINX LON1", country: "GB" },
-  { id: 297, name: "LU-CIX", country: "LU" },
-  { id: 49, name: "MIX-IT", country: "IT" },
-  { id: 70, name: "Netnod STO", country: "SE" },
-  { id: 48, name: "NL-ix", country: "NL" },
-  { id: 35, name: "SwissIX", country: "CH" },
-  { id: 50, name: "VIX", country: "AT" },
-];
-
-// Networks to check connectivity to Cloudflare
-interface NetworkDef {
-  asn: number;
-  name: string;
-}
-
-const NETWORKS: NetworkDef[] = [
-  { asn: 16509, name: "AWS" },
-  { asn: 8075, name: "Azure" },
-  { asn: 40401, name: "Backblaze" },
-  { asn: 13335, name: "Cloudflare" },
-  { asn: 15169, name: "Google" },
-  { asn: 202053, name: "UpCloud" },
-];
-
-// --- Deno KV persistence ---
-
-const kv = await Deno.openKv();
-
-const PEERINGDB_CACHE_TTL = 86400_000; // 24h
-const RESULT_CACHE_TTL = 86400_000; // 24h
-
-// BGP table is too large for KV (>64KB), so keep it in-memory.
-let bgpCache: { data: BgpEntry[]; timestamp: number } | null = null;
-const BGP_CACHE_TTL = 1800_000; // 30 min
-
-async function fetchBgpTable(): Promise<BgpEntry[]> {
-  const now = Date.now();
-  if (bgpCache && now - bgpCache.timestamp < BGP_CACHE_TTL) {
-    return bgpCache.data;
-  }
-
-  const resp = await fetch("https://bgp.tools/table.jsonl", {
-    headers: { "User-Agent": USER_AGENT },
-  });
-
-  if (!resp.ok) {
-    throw new Error(`bgp.tools returned ${resp.status}: ${await resp.text()}`);
-  }
-
-  const text = await resp.text();
-  const entries: BgpEntry[] = [];
-
-  for (const line of text.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-    try {
-      entries.push(JSON.parse(trimmed));
-    } catch {
-      // skip malformed lines
-    }
-  }
-
-  bgpCache = { data: entries, timestamp: now };
-  return entries;
-}
-
-async function fetchAsnIxIds(asn: number): Promise<Set<number>> {
-  const cached = await kv.get<number[]>(["peeringdb", "asn", asn]);
-  if (cached.value) {
-    return new Set(cached.value);
-  }
-
-  try {
-    const headers: Record<string, string> = { "User-Agent": USER_AGENT };
-    if (PEERINGDB_API_KEY) {
-      headers["Authorization"] = `Api-Key ${PEERINGDB_API_KEY}`;
-    }
-    const resp = await fetch(
-      `https://www.peeringdb.com/api/netixlan?asn=${asn}`,
-      { headers },
-    );
-    if (!resp.ok) {
-      console.warn(
-        `PeeringDB AS${asn} returned ${resp.status}, no cache available`,
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
       );
-      return new Set();
-    }
-    const data = await resp.json();
-    if (data.meta?.error || !Array.isArray(data.data)) {
-      console.warn(`PeeringDB AS${asn} rate limited, no cache available`);
-      return new Set();
     }
-    const ixIds = new Set<number>();
-    for (const entry of data.data) {
-      if (entry.ix_id) ixIds.add(entry.ix_id);
-    }
-    if (ixIds.size > 0) {
-      await kv.set(["peeringdb", "asn", asn], [...ixIds], {
-        expireIn: PEERINGDB_CACHE_TTL,
-      });
-    }
-    return ixIds;
-  } catch {
-    return new Set();
-  }
-}
-
-// --- Types ---
-
-interface NetworkPresence {
-  asn: number;
-  name: string;
-  present: boolean;
-}
-
-interface IxpResult {
-  id: number;
-  name: string;
-  country: string;
-  networks: NetworkPresence[];
-}
-
-interface CfPrefixInfo {
-  prefix: string;
-  type: "v4" | "v6";
-  visibility: number;
-  mask: number;
-}
-
-interface VisibilityBucket {
-  label: string;
-  min: number;
-  count: number;
-}
-
-interface CheckResult {
-  ixps: IxpResult[];
-  bgp: {
-    total: number;
-    v4: number;
-    v6: number;
-    avgVisibility: number;
-    minVisibility: number;
-    maxVisibility: number;
-    lowVisibility: CfPrefixInfo[];
-    visibilityBuckets: VisibilityBucket[];
-  };
-  cfIxpsGlobal: number;
-}
 
-export const handler = define.handlers({
-  async GET(_ctx) {
     try {
       const startTime = performance.now();
 
-      // Check for cached result
-      const cachedResult = await kv.get<CheckResult>(["result", "v4"]);
-      if (cachedResult.value) {
-        const queryTime = Math.round(performance.now() - startTime);
-        return Response.json({
-          success: true,
-          ...cachedResult.value,
-          queryTime,
-          cached: true,
-        });
+      // Any AS can be looked at: it is watched, or its watch renewed, as
+      // long as the number of added ASNs allows.
+      if (!await watchAsn(asn)) {
+        return Response.json(
+          {
+            success: false,
+            error: `At most ${MAX_REQUESTED_ASNS} ASNs can be watched, ` +
+              `try again once one has expired`,
+          },
+          { status: 409 },
+        );
+      }
+      const stored = await getLatestResult(asn);
+      const cached = stored !== null;
+      recordCacheLookup("result", cached);
+      if (!stored || Date.now() - stored.generatedAt > REFRESH_INTERVAL) {
+        // Serve the last good result while refreshing in the background.
+        refreshResult(asn);
       }
 
-      // Fetch all data in parallel
-      const [bgpTable, ...networkIxIds] = await Promise.all([
-        fetchBgpTable(),
-        ...NETWORKS.map((n) => fetchAsnIxIds(n.asn)),
-      ]);
-
-      // Build IXP-centric view with per-network presence
-      const ixps: IxpResult[] = REGIONAL_IXPS.map((ixp) => ({
-        id: ixp.id,
-        name: ixp.name,
-        country: ixp.country,
-        networks: NETWORKS.map((net, i) => ({
-          asn: net.asn,
-          name: net.name,
-          present: networkIxIds[i].has(ixp.id),
-        })).sort((a, b) => Number(b.present) - Number(a.present) || a.name.localeCompare(b.name)),
-      }));
-
-      const cfIdx = NETWORKS.findIndex((n) => n.asn === CLOUDFLARE_AS);
-      const cfIxIds = networkIxIds[cfIdx];
-
-      // BGP stats
-      const cfBgpEntries = bgpTable.filter((e) => e.ASN === CLOUDFLARE_AS);
-      const v4Prefixes = cfBgpEntries.filter((e) => !e.CIDR.includes(":"));
-      const v6Prefixes = cfBgpEntries.filter((e) => e.CIDR.includes(":"));
-
-      const visibilities = cfBgpEntries.map((e) => e.Hits);
-      const avgVisibility =
-        visibilities.length > 0
-          ? Math.round(
-              visibilities.reduce((a, b) => a + b, 0) / visibilities.length,
-            )
-          : 0;
-      const minVisibility =
-        visibilities.length > 0 ? Math.min(...visibilities) : 0;
-      const maxVisibility =
-        visibilities.length > 0 ? Math.max(...visibilities) : 0;
-
-      const visThreshold = Math.max(1000, avgVisibility * 0.5);
-      const lowVisibility: CfPrefixInfo[] = cfBgpEntries
-        .filter((e) => e.Hits < visThreshold)
-        .sort((a, b) => a.Hits - b.Hits)
-        .slice(0, 50)
-        .map((e) => ({
-          prefix: e.CIDR,
-          type: e.CIDR.includes(":") ? ("v6" as const) : ("v4" as const),
-          visibility: e.Hits,
-          mask: parseInt(e.CIDR.split("/")[1]),
-        }));
-
-      const buckets: VisibilityBucket[] = [
-        { label: "0-500", min: 0, count: 0 },
-        { label: "500-1000", min: 500, count: 0 },
-        { label: "1000-2000", min: 1000, count: 0 },
-        { label: "2000-3000", min: 2000, count: 0 },
-        { label: "3000+", min: 3000, count: 0 },
-      ];
-      for (const e of cfBgpEntries) {
-        if (e.Hits >= 3000) buckets[4].count++;
-        else if (e.Hits >= 2000) buckets[3].count++;
-        else if (e.Hits >= 1000) buckets[2].count++;
-        else if (e.Hits >= 500) buckets[1].count++;
-        else buckets[0].count++;
+      const sources = await getSourceReports();
+      if (!stored) {
+        // A new refresh was just started, but the client needs to know the
+        // last one got nowhere rather than wait for a push that never comes.
+        const failure = await getRefreshFailure(asn);
+        if (failure) {
+          return Response.json(
+            {
+              success: false,
+              error: `No data for AS${asn} yet, the last refresh failed ` +
+                `(${failure.error}); retrying`,
+              sources,
+            },
+            { status: 503 },
+          );
+        }
+        // The first result needs a full BGP table download, which is not
+        // worth holding a request open for; /api/events pushes it.
+        return Response.json(
+          {
+            success: false,
+            pending: true,
+            error: `Collecting data for AS${asn}, check back shortly`,
+            sources,
+          },
+          { status: 202 },
+        );
       }
 
-      const result: CheckResult = {
-        ixps,
-        bgp: {
-          total: cfBgpEntries.length,
-          v4: v4Prefixes.length,
-          v6: v6Prefixes.length,
-          avgVisibility,
-          minVisibility,
-          maxVisibility,
-          lowVisibility,
-          visibilityBuckets: buckets,
-        },
-        cfIxpsGlobal: cfIxIds.size,
+      const validators = resultValidators(asn, stored, sources);
+      const headers = {
+        "ETag": validators.etag,
+        "Last-Modified": new Date(validators.lastModified).toUTCString(),
+        // Pollers revalidate instead of trusting a cached copy.
+        "Cache-Control": "no-cache",
       };
-
-      // Only cache if we got valid CF IXP data
-      if (cfIxIds.size > 0) {
-        await kv.set(["result", "v4"], result, {
-          expireIn: RESULT_CACHE_TTL,
-        });
+      if (isNotModified(ctx.req, validators)) {
+        return new Response(null, { status: 304, headers });
       }
 
       const queryTime = Math.round(performance.now() - startTime);
       return Response.json({
         success: true,
-        ...result,
+        ...presentResult(asn, stored, sources),
         queryTime,
-      });
+        cached,
+      }, { headers });
     } catch (err) {
       console.error("Check failed:", err);
       return Response.json(
@@ -0,0 +1,35 @@
+import { define } from "../../utils.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { eventStream } from "../../lib/events.ts";
+import { parseAsn } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const params = ctx.url.searchParams;
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const sinceParam = params.get("since");
+    const since = sinceParam === null ? null : Number(sinceParam);
+    if (since !== null && !Number.isFinite(since)) {
+      return Response.json(
+        { success: false, error: "Invalid since" },
+        { status: 400 },
+      );
+    }
+
+    return new Response(eventStream(asn, since), {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        // Keep nginx-style proxies from buffering the stream.
+        "X-Accel-Buffering": "no",
+      },
+    });
+  },
+});
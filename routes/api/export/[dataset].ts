@@ -0,0 +1,92 @@
+import { define } from "../../../utils.ts";
+import { CLOUDFLARE_AS } from "../../../lib/config.ts";
+import {
+  bucketTable,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportResponse,
+  type ExportTable,
+  prefixTable,
+  presenceTable,
+} from "../../../lib/export.ts";
+import { loadPrefixes } from "../../../lib/prefixes.ts";
+import { getLatestResult } from "../../../lib/refresh.ts";
+import { parseAsn, requireWatched } from "../../../lib/watch.ts";
+
+const DATASETS = ["presence", "prefixes", "buckets"];
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const { dataset } = ctx.params;
+    if (!DATASETS.includes(dataset)) {
+      return Response.json(
+        {
+          success: false,
+          error: `Unknown export "${dataset}", expected one of ${
+            DATASETS.join(", ")
+          }`,
+        },
+        { status: 404 },
+      );
+    }
+    const params = ctx.url.searchParams;
+    const format = params.get("format") ?? "csv";
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return Response.json(
+        {
+          success: false,
+          error: `format must be one of ${EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      let table: ExportTable;
+      let generatedAt: number;
+      if (dataset === "prefixes") {
+        const loaded = await loadPrefixes(asn);
+        table = prefixTable(loaded.prefixes);
+        generatedAt = loaded.tableFetchedAt;
+      } else {
+        const stored = await getLatestResult(asn);
+        if (!stored) {
+          return Response.json(
+            { success: false, error: `No result for AS${asn} yet` },
+            { status: 503 },
+          );
+        }
+        table = dataset === "presence"
+          ? presenceTable(stored.result)
+          : bucketTable(stored.result);
+        generatedAt = stored.generatedAt;
+      }
+      const date = new Date(generatedAt).toISOString().slice(0, 10);
+      return exportResponse(
+        table,
+        format as ExportFormat,
+        `as${asn}-${dataset}-${date}`,
+      );
+    } catch (err) {
+      console.error("Export failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Export failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
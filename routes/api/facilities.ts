@@ -0,0 +1,20 @@
+import { define } from "../../utils.ts";
+import { computeFacilityOverlap } from "../../lib/facilities.ts";
+
+export const handler = define.handlers({
+  async GET(_ctx) {
+    try {
+      const overlap = await computeFacilityOverlap();
+      return Response.json({ success: true, ...overlap });
+    } catch (err) {
+      console.error("Facilities failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Facilities failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
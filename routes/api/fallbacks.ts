@@ -0,0 +1,47 @@
+import { define } from "../../utils.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { estimateFallbacks } from "../../lib/fallback.ts";
+import { parseIxpSelection, selectIxps } from "../../lib/ixps.ts";
+import { parseAsn } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const selection = parseIxpSelection(params);
+    if (typeof selection === "string") {
+      return Response.json(
+        { success: false, error: selection },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const ixpIds = selection.ids ??
+        (await selectIxps(selection)).map((ixp) => ixp.id);
+      return Response.json({
+        success: true,
+        asn,
+        paths: await estimateFallbacks(asn, ixpIds),
+      });
+    } catch (err) {
+      console.error("Fallback estimate failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error
+            ? err.message
+            : "Fallback estimate failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
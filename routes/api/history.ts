@@ -0,0 +1,47 @@
+import { define } from "../../utils.ts";
+import {
+  buildSeries,
+  HISTORY_RANGES,
+  listSnapshots,
+} from "../../lib/history.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const range = ctx.url.searchParams.get("range") ?? "7d";
+    const span = HISTORY_RANGES[range];
+    if (!span) {
+      return Response.json(
+        {
+          success: false,
+          error: `Unknown range "${range}", expected one of ${
+            Object.keys(HISTORY_RANGES).join(", ")
+          }`,
+        },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const to = Date.now();
+      const from = to - span;
+      const snapshots = await listSnapshots(from, to);
+      return Response.json({
+        success: true,
+        range,
+        from,
+        to,
+        points: snapshots.length,
+        series: buildSeries(snapshots),
+      });
+    } catch (err) {
+      console.error("History failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "History failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,42 @@
+import { define } from "../../utils.ts";
+import { fetchBgpTable } from "../../lib/bgp.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { checkIrr } from "../../lib/irr.ts";
+import { parseAsn, requireWatched } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      const table = await fetchBgpTable(asn);
+      const report = await checkIrr(table, asn);
+      if (!report) {
+        return Response.json(
+          { success: false, error: "No IRR dump configured (IRR_DUMP)" },
+          { status: 404 },
+        );
+      }
+      return Response.json({ success: true, ...report });
+    } catch (err) {
+      console.error("IRR check failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "IRR check failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,61 @@
+import { define } from "../../utils.ts";
+import { computeIxpPresence } from "../../lib/check.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import {
+  CURATED_REGION,
+  DEFAULT_SELECTION,
+  listRegionCountries,
+  parseIxpSelection,
+  REGIONS,
+} from "../../lib/ixps.ts";
+import { parseAsn } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const selection = parseIxpSelection(params);
+    if (typeof selection === "string") {
+      return Response.json(
+        { success: false, error: selection },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const [ixps, countries] = await Promise.all([
+        computeIxpPresence(asn, selection),
+        // Only used to narrow the region down, so not worth failing over.
+        listRegionCountries(selection.region).catch(() => []),
+      ]);
+      return Response.json({
+        success: true,
+        asn,
+        selection,
+        defaultRegion: DEFAULT_SELECTION.region,
+        regions: [
+          { id: CURATED_REGION, label: "Curated" },
+          ...Object.entries(REGIONS).map(([id, label]) => ({ id, label })),
+        ],
+        countries,
+        ixps,
+      });
+    } catch (err) {
+      console.error("IXP selection failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "IXP selection failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
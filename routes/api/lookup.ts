@@ -0,0 +1,49 @@
+import { define } from "../../utils.ts";
+import { fetchBgpTable } from "../../lib/bgp.ts";
+import { formatPrefix, parsePrefix } from "../../lib/ip.ts";
+
+const MORE_SPECIFICS_LIMIT = 100;
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const query = ctx.url.searchParams.get("ip")?.trim() ?? "";
+    const parsed = parsePrefix(query);
+    if (!parsed) {
+      return Response.json(
+        { success: false, error: `"${query}" is not an IP address or prefix` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const table = await fetchBgpTable();
+      const trie = table.routes[parsed.family];
+      const covering = trie.covering(parsed.words, parsed.length);
+      const more = trie.moreSpecifics(
+        parsed.words,
+        parsed.length,
+        MORE_SPECIFICS_LIMIT,
+      );
+
+      return Response.json({
+        success: true,
+        query: formatPrefix(parsed),
+        family: parsed.family,
+        match: covering.at(-1) ?? null,
+        lessSpecifics: covering.slice(0, -1).reverse(),
+        moreSpecifics: more.routes,
+        moreSpecificsTotal: more.total,
+        tableAge: Date.now() - table.fetchedAt,
+      });
+    } catch (err) {
+      console.error("Lookup failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Lookup failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
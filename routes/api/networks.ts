@@ -0,0 +1,49 @@
+import { define } from "../../utils.ts";
+import { CLOUDFLARE_AS, NETWORKS } from "../../lib/config.ts";
+import { fetchNetworkInfo } from "../../lib/peeringdb.ts";
+import { parseAsn } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const param = ctx.url.searchParams.get("asn");
+    const extra = param === null ? null : parseAsn(param);
+    if (param !== null && extra === null) {
+      return Response.json(
+        { success: false, error: `"${param}" is not a valid ASN` },
+        { status: 400 },
+      );
+    }
+
+    const asns = [CLOUDFLARE_AS, ...NETWORKS.map((n) => n.asn)];
+    if (extra !== null) asns.push(extra);
+
+    try {
+      const lookups = await Promise.all(
+        [...new Set(asns)].map(async (asn) => ({
+          asn,
+          ...await fetchNetworkInfo(asn),
+        })),
+      );
+      return Response.json({
+        success: true,
+        networks: lookups.flatMap(({ info, status }) =>
+          info ? [{ ...info, dataStatus: status }] : []
+        ),
+        // PeeringDB failed for these and nothing was cached: a missing
+        // record is not an absence.
+        unavailable: lookups
+          .filter((l) => l.status === "unknown")
+          .map((l) => l.asn),
+      });
+    } catch (err) {
+      console.error("Networks failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Networks failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
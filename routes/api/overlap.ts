@@ -0,0 +1,46 @@
+import { define } from "../../utils.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { parseIxpSelection } from "../../lib/ixps.ts";
+import {
+  computePairOverlaps,
+  computePresenceMatrix,
+} from "../../lib/overlap.ts";
+import { parseAsn } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const selection = parseIxpSelection(params);
+    if (typeof selection === "string") {
+      return Response.json(
+        { success: false, error: selection },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const [matrix, overlap] = await Promise.all([
+        computePresenceMatrix(asn, selection),
+        computePairOverlaps(asn),
+      ]);
+      return Response.json({ success: true, asn, matrix, ...overlap });
+    } catch (err) {
+      console.error("Overlap failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Overlap failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
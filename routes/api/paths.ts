@@ -0,0 +1,49 @@
+import { define } from "../../utils.ts";
+import { fetchBgpTable } from "../../lib/bgp.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import { analyzePaths } from "../../lib/paths.ts";
+import { parseAsn, requireWatched } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      const table = await fetchBgpTable(asn);
+      const analysis = analyzePaths(table, asn);
+      if (!analysis) {
+        return Response.json(
+          {
+            success: false,
+            error: "The routing table source has no AS paths; use an MRT dump",
+          },
+          { status: 404 },
+        );
+      }
+      return Response.json({
+        success: true,
+        ...analysis,
+        tableAge: Date.now() - table.fetchedAt,
+      });
+    } catch (err) {
+      console.error("Paths failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Paths failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
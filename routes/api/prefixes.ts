@@ -0,0 +1,48 @@
+import { define } from "../../utils.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+import {
+  loadPrefixes,
+  parsePrefixQuery,
+  queryPrefixes,
+} from "../../lib/prefixes.ts";
+import { parseAsn, requireWatched } from "../../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const params = ctx.url.searchParams;
+    const asnParam = params.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const query = parsePrefixQuery(params);
+    if (typeof query === "string") {
+      return Response.json({ success: false, error: query }, { status: 400 });
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      const { prefixes, tableFetchedAt } = await loadPrefixes(asn);
+      return Response.json({
+        success: true,
+        asn,
+        ...queryPrefixes(prefixes, query),
+        tableAge: Date.now() - tableFetchedAt,
+      });
+    } catch (err) {
+      console.error("Prefixes failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Prefixes failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
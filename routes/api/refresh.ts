@@ -0,0 +1,53 @@
+import { define } from "../../utils.ts";
+import { requireAdmin } from "../../lib/auth.ts";
+import { expireSources, parseSourceNames } from "../../lib/caches.ts";
+import { forceRefresh } from "../../lib/refresh.ts";
+import { parseAsn, requireWatched } from "../../lib/watch.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+
+// Expire the caches of the given sources (all by default) and recompute the
+// result for `asn`, which must already be monitored. A full refresh downloads
+// the BGP table, so this answers right away; /api/events and /api/status show
+// when it is done.
+export const handler = define.handlers({
+  async POST(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return Response.json(
+        { success: false, error: `Invalid ASN "${asnParam}"` },
+        { status: 400 },
+      );
+    }
+    const sources = parseSourceNames(ctx.url.searchParams.get("source"));
+    if (typeof sources === "string") {
+      return Response.json({ success: false, error: sources }, { status: 400 });
+    }
+
+    try {
+      const notWatched = await requireWatched(asn);
+      if (notWatched) return notWatched;
+
+      expireSources(sources);
+      forceRefresh(asn).catch((err) =>
+        console.error(`Refresh of AS${asn} failed:`, err)
+      );
+      return Response.json(
+        { success: true, asn, sources, refreshing: true },
+        { status: 202 },
+      );
+    } catch (err) {
+      console.error("Refresh failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Refresh failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,31 @@
+import { define } from "../../utils.ts";
+import { requireAdmin } from "../../lib/auth.ts";
+import { getCacheStatus } from "../../lib/caches.ts";
+import { getSourceReports } from "../../lib/sources.ts";
+
+// Age, TTL and size of every cache, next to the status of the sources that
+// fill them. In-memory caches are those of the instance answering. Counting
+// the stored entries scans KV, so this is for admins only.
+export const handler = define.handlers({
+  async GET(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+
+    try {
+      const [caches, sources] = await Promise.all([
+        getCacheStatus(),
+        getSourceReports(),
+      ]);
+      return Response.json({ success: true, caches, sources });
+    } catch (err) {
+      console.error("Status failed:", err);
+      return Response.json(
+        {
+          success: false,
+          error: err instanceof Error ? err.message : "Status failed",
+        },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,83 @@
+import { define } from "../../utils.ts";
+import { requireAdmin } from "../../lib/auth.ts";
+import { kv } from "../../lib/kv.ts";
+import { refreshResult } from "../../lib/refresh.ts";
+import {
+  listRequestedAsns,
+  MAX_REQUESTED_ASNS,
+  parseAsn,
+  unwatchAsn,
+  watchAsn,
+} from "../../lib/watch.ts";
+import { WATCHED_ASNS } from "../../lib/config.ts";
+
+function asnFrom(url: URL): number | Response {
+  const asnParam = url.searchParams.get("asn");
+  const asn = parseAsn(asnParam);
+  if (asn === null) {
+    return Response.json(
+      { success: false, error: `Invalid ASN "${asnParam}"` },
+      { status: 400 },
+    );
+  }
+  return asn;
+}
+
+// Monitored ASNs besides the configured ones. /api/check adds any AS it is
+// asked about while there is room; adding one ahead of time and removing
+// one to make room are token-protected.
+export const handler = define.handlers({
+  async GET(_ctx) {
+    return Response.json({
+      success: true,
+      configured: [...WATCHED_ASNS],
+      requested: await listRequestedAsns(),
+      limit: MAX_REQUESTED_ASNS,
+    });
+  },
+
+  async POST(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+    const asn = asnFrom(ctx.url);
+    if (asn instanceof Response) return asn;
+
+    if (!await watchAsn(asn)) {
+      return Response.json(
+        {
+          success: false,
+          error: `At most ${MAX_REQUESTED_ASNS} ASNs can be watched`,
+        },
+        { status: 409 },
+      );
+    }
+    // The first result needs a BGP table download; /api/check answers
+    // "pending" until it is stored.
+    refreshResult(asn).catch((err) =>
+      console.error(`Refresh of AS${asn} failed:`, err)
+    );
+    return Response.json({ success: true, asn }, { status: 202 });
+  },
+
+  async DELETE(ctx) {
+    const denied = requireAdmin(ctx.req);
+    if (denied) return denied;
+    const asn = asnFrom(ctx.url);
+    if (asn instanceof Response) return asn;
+
+    if (WATCHED_ASNS.has(asn)) {
+      return Response.json(
+        { success: false, error: `AS${asn} is configured, not requested` },
+        { status: 400 },
+      );
+    }
+    if (!await unwatchAsn(asn)) {
+      return Response.json(
+        { success: false, error: `AS${asn} is not watched` },
+        { status: 404 },
+      );
+    }
+    await kv.delete(["result", asn]);
+    return Response.json({ success: true });
+  },
+});
@@ -0,0 +1,58 @@
+import { define } from "../../../utils.ts";
+import {
+  badgeResponse,
+  errorBadge,
+  notMonitoredBadge,
+  notTrackedBadge,
+  pendingBadge,
+  presenceBadge,
+} from "../../../lib/badge.ts";
+import { getLatestResult } from "../../../lib/refresh.ts";
+import { isWatched, parseAsn } from "../../../lib/watch.ts";
+import { CLOUDFLARE_AS } from "../../../lib/config.ts";
+
+// /badge/ixp/<id>.svg: whether `asn` (Cloudflare by default) is at the
+// PeeringDB exchange <id>, and with how much capacity. Like every badge, only
+// reads stored results: IXPs they do not compare are "not tracked".
+export const handler = define.handlers({
+  async GET(ctx) {
+    const match = /^(\d+)\.svg$/.exec(ctx.params.id);
+    const id = match ? Number(match[1]) : 0;
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      return badgeResponse(errorBadge("IXP", "invalid id"), ctx.url, 400);
+    }
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return badgeResponse(errorBadge("IXP", "invalid ASN"), ctx.url, 400);
+    }
+
+    try {
+      if (!await isWatched(asn)) {
+        return badgeResponse(notMonitoredBadge(`AS${asn}`), ctx.url);
+      }
+
+      // The stored results of `asn` and of Cloudflare both compare the
+      // usual networks at the default IXPs.
+      const stored = await Promise.all(
+        [...new Set([asn, CLOUDFLARE_AS])].map((a) => getLatestResult(a)),
+      );
+      const ixp = stored
+        .flatMap((s) => s?.result.ixps ?? [])
+        .find((i) => i.id === id && i.networks.some((n) => n.asn === asn));
+      const net = ixp?.networks.find((n) => n.asn === asn);
+      if (!ixp || !net) {
+        // Until its own result is stored, `asn` may still turn up there.
+        const label = `AS${asn} @ IXP ${id}`;
+        return badgeResponse(
+          stored[0] ? notTrackedBadge(label) : pendingBadge(label),
+          ctx.url,
+        );
+      }
+      return badgeResponse(presenceBadge(ixp.name, net), ctx.url);
+    } catch (err) {
+      console.error("IXP badge failed:", err);
+      return badgeResponse(errorBadge("IXP", "error"), ctx.url, 500);
+    }
+  },
+});
@@ -0,0 +1,25 @@
+import { define } from "../../../utils.ts";
+import {
+  badgeResponse,
+  errorBadge,
+  networkBadgeFor,
+} from "../../../lib/badge.ts";
+import { parseAsn } from "../../../lib/watch.ts";
+
+// /badge/network/<asn>.svg: at how many of the regional IXPs the network is.
+export const handler = define.handlers({
+  async GET(ctx) {
+    const match = /^(.+)\.svg$/.exec(ctx.params.asn);
+    const asn = match && parseAsn(match[1]);
+    if (!asn) {
+      return badgeResponse(errorBadge("network", "invalid ASN"), ctx.url, 400);
+    }
+
+    try {
+      return badgeResponse(await networkBadgeFor(asn), ctx.url);
+    } catch (err) {
+      console.error("Network badge failed:", err);
+      return badgeResponse(errorBadge(`AS${asn}`, "error"), ctx.url, 500);
+    }
+  },
+});
@@ -0,0 +1,41 @@
+import { define } from "../../utils.ts";
+import {
+  badgeResponse,
+  currentResult,
+  errorBadge,
+  notMonitoredBadge,
+  pendingBadge,
+  visibilityBadge,
+} from "../../lib/badge.ts";
+import { parseAsn } from "../../lib/watch.ts";
+import { CLOUDFLARE_AS } from "../../lib/config.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    if (asn === null) {
+      return badgeResponse(
+        errorBadge("visibility", "invalid ASN"),
+        ctx.url,
+        400,
+      );
+    }
+
+    try {
+      const label = `AS${asn} visibility`;
+      const current = await currentResult(asn);
+      return badgeResponse(
+        current === "not monitored"
+          ? notMonitoredBadge(label)
+          : current === "pending"
+          ? pendingBadge(label)
+          : visibilityBadge(current.result),
+        ctx.url,
+      );
+    } catch (err) {
+      console.error("Visibility badge failed:", err);
+      return badgeResponse(errorBadge("visibility", "error"), ctx.url, 500);
+    }
+  },
+});
@@ -0,0 +1,163 @@
+import { Head } from "fresh/runtime";
+import { page } from "fresh";
+import { define } from "../utils.ts";
+import { currentResult } from "../lib/badge.ts";
+import { parseAsn } from "../lib/watch.ts";
+import { CLOUDFLARE_AS } from "../lib/config.ts";
+
+// Compact, script-free summary for iframes on wikis and status pages. The
+// page reloads itself; results change at most every refresh anyway.
+const RELOAD_SECONDS = 300;
+
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const asnParam = ctx.url.searchParams.get("asn");
+    const asn = asnParam === null ? CLOUDFLARE_AS : parseAsn(asnParam);
+    const headers = { "Content-Security-Policy": "frame-ancestors *" };
+    if (asn === null) {
+      return page(
+        {
+          asn,
+          stored: null,
+          monitored: false,
+          error: `Invalid ASN "${asnParam}"`,
+        },
+        { headers, status: 400 },
+      );
+    }
+
+    try {
+      const current = await currentResult(asn);
+      const monitored = current !== "not monitored";
+      return page(
+        {
+          asn,
+          stored: typeof current === "string" ? null : current,
+          monitored,
+          error: null,
+        },
+        { headers, status: monitored ? 200 : 404 },
+      );
+    } catch (err) {
+      console.error("Embed failed:", err);
+      return page(
+        {
+          asn,
+          stored: null,
+          monitored: false,
+          error: err instanceof Error ? err.message : "Embed failed",
+        },
+        { headers, status: 500 },
+      );
+    }
+  },
+});
+
+export default define.page<typeof handler>(function Embed({ data }) {
+  const { asn, stored, monitored, error } = data;
+  const result = stored?.result;
+  const ageMs = stored && Date.now() - stored.generatedAt;
+  const stats = result && [
+    { label: "Prefixes", value: result.bgp.total.toLocaleString("en") },
+    {
+      label: "Avg visibility",
+      value: result.bgp.avgVisibility.toLocaleString("en"),
+    },
+    {
+      label: "Low visibility",
+      value: result.bgp.lowVisibilityCount.toLocaleString("en"),
+      warn: result.bgp.lowVisibilityCount > 0,
+    },
+    {
+      label: "RPKI invalid",
+      value: result.bgp.rpki
+        ? result.bgp.rpki.invalid.toLocaleString("en")
+        : "-",
+      warn: !!result.bgp.rpki?.invalid,
+    },
+    { label: "IXPs global", value: result.ixpsGlobal.toLocaleString("en") },
+  ];
+
+  return (
+    <div class="p-3 bg-white text-[#111] text-xs">
+      <Head>
+        <title>
+          {result ? `${result.name} (AS${asn})` : "Network Monitor"}
+        </title>
+        <meta http-equiv="refresh" content={String(RELOAD_SECONDS)} />
+      </Head>
+
+      {error && <p class="text-red-600">{error}</p>}
+      {!error && !result && (
+        <p class="text-[#999]">
+          {monitored
+            ? `No data for AS${asn} yet, it is being collected.`
+            : `AS${asn} is not monitored.`}
+        </p>
+      )}
+
+      {result && stats && (
+        <>
+          <div class="flex items-baseline justify-between gap-2 mb-2">
+            <a
+              href="/"
+              target="_blank"
+              rel="noopener noreferrer"
+              class="text-sm font-medium hover:underline"
+            >
+              {result.name} <span class="text-[#999]">AS{asn}</span>
+            </a>
+            <span class="text-[10px] text-[#999]">
+              updated {formatAge(ageMs ?? 0)}
+            </span>
+          </div>
+
+          <div class="grid grid-cols-5 gap-2 mb-2">
+            {stats.map((s) => (
+              <div key={s.label} class="rounded bg-[#fafafa] px-2 py-1">
+                <div
+                  class={`text-sm font-medium ${
+                    s.warn ? "text-amber-600" : "text-[#111]"
+                  }`}
+                >
+                  {s.value}
+                </div>
+                <div class="text-[10px] text-[#999]">{s.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div class="flex flex-wrap gap-x-3 gap-y-1">
+            {result.ixps.map((ixp) => {
+              const net = ixp.networks.find((n) => n.asn === asn);
+              const color = !net || net.dataStatus === "unknown"
+                ? "bg-[#ccc]"
+                : net.present
+                ? "bg-green-500"
+                : "bg-red-400";
+              return (
+                <span
+                  key={ixp.id}
+                  class="flex items-center gap-1 text-[#666]"
+                  title={net?.present ? "Present" : "Not present"}
+                >
+                  <span class={`inline-block w-2 h-2 rounded-full ${color}`} />
+                  {ixp.name}
+                </span>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
@@ -1,6 +1,7 @@
 import { Head } from "fresh/runtime";
 import { define } from "../utils.ts";
 import NetworkMonitor from "../islands/NetworkMonitor.tsx";
+import { CLOUDFLARE_AS, NETWORKS } from "../lib/config.ts";
 
 export default define.page(function Home() {
   return (
@@ -14,10 +15,11 @@ export default define.page(function Home() {
             Cloudflare Network Monitor
           </h1>
           <p class="text-[#666] text-sm mb-8">
-            Monitor Cloudflare (AS13335) BGP prefix visibility from bgp.tools
-            and network connectivity at regional IXPs via PeeringDB.
+            Monitor Cloudflare (AS13335) — or any other origin AS — BGP prefix
+            visibility from bgp.tools and network connectivity at regional IXPs
+            via PeeringDB.
           </p>
-          <NetworkMonitor />
+          <NetworkMonitor networks={NETWORKS} defaultAsn={CLOUDFLARE_AS} />
         </div>
       </div>
       <footer class="px-6 md:px-12 py-8 border-t border-[#eee]">
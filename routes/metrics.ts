@@ -0,0 +1,31 @@
+import { define } from "../utils.ts";
+import { CLOUDFLARE_AS } from "../lib/config.ts";
+import { renderMetrics } from "../lib/metrics.ts";
+import { getLatestResult, type StoredResult } from "../lib/refresh.ts";
+import { getSourceReports } from "../lib/sources.ts";
+import { listRequestedAsns } from "../lib/watch.ts";
+
+export const handler = define.handlers({
+  async GET(_ctx) {
+    try {
+      const asns = [CLOUDFLARE_AS, ...await listRequestedAsns()];
+      const [results, sources] = await Promise.all([
+        Promise.all(asns.map((asn) => getLatestResult(asn))),
+        getSourceReports(),
+      ]);
+      const body = renderMetrics(
+        results.filter((r): r is StoredResult => r !== null),
+        sources,
+      );
+      return new Response(body, {
+        headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+      });
+    } catch (err) {
+      console.error("Metrics failed:", err);
+      return new Response(
+        `# metrics failed: ${err instanceof Error ? err.message : err}\n`,
+        { status: 500, headers: { "Content-Type": "text/plain" } },
+      );
+    }
+  },
+});